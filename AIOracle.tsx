@@ -5,6 +5,8 @@ import { doc, getDoc } from "firebase/firestore";
 import { SmartBrain, ChatMessage } from './SmartLogic'; // Import SmartBrain
 import { Video, UserInteractions } from './types';
 import { Logo } from './Logo';
+import { OracleHistoryStore } from './persistence';
+import { buildSearchIndex, searchVideos } from './arabicSearch';
 
 interface AIOracleProps {
   onRefresh?: () => void;
@@ -22,12 +24,7 @@ const AIOracle: React.FC<AIOracleProps> = ({ onRefresh, allVideos = [], interact
   const [isOpen, setIsOpen] = useState(false);
   const [inputText, setInputText] = useState('');
   
-  const [history, setHistory] = useState<ChatMessage[]>(() => {
-    try {
-      const saved = localStorage.getItem('al-hadiqa-ai-history-v7');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
-  });
+  const [history, setHistory] = useState<ChatMessage[]>(() => OracleHistoryStore.load());
 
   const [visibleMessage, setVisibleMessage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false); 
@@ -109,7 +106,7 @@ const AIOracle: React.FC<AIOracleProps> = ({ onRefresh, allVideos = [], interact
   const isTalking = isAudioPlaying && !isVoiceLocked;
 
   useEffect(() => {
-    localStorage.setItem('al-hadiqa-ai-history-v7', JSON.stringify(history));
+    OracleHistoryStore.save(history);
   }, [history]);
 
   // Handle Drag Events
@@ -188,9 +185,8 @@ const AIOracle: React.FC<AIOracleProps> = ({ onRefresh, allVideos = [], interact
       let targetVideo: Video | undefined;
 
       if (searchQuery) {
-          // Fuzzy search
-          const query = searchQuery.toLowerCase();
-          targetVideo = allVideos.find(v => v.title.toLowerCase().includes(query) || v.description?.toLowerCase().includes(query) || v.category.toLowerCase().includes(query));
+          // Same Arabic-aware ranking as the search screen (hamza/taa marbuta/diacritics insensitive)
+          targetVideo = searchVideos(buildSearchIndex(allVideos), searchQuery, 1)[0]?.video;
       }
 
       // Fallback: Random based on interests or random completely
@@ -240,7 +236,7 @@ const AIOracle: React.FC<AIOracleProps> = ({ onRefresh, allVideos = [], interact
       if (!isVoiceLocked) {
         const speakableText = cleanTextForSpeech(replyText);
         if (speakableText) {
-          playNarrative(speakableText);
+          playNarrative(speakableText, undefined, 'avatar');
           
           const newVoiceCount = voiceCount + 1;
           setVoiceCount(newVoiceCount);
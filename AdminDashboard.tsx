@@ -1,30 +1,25 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Video, VideoType } from './types';
+import { Video, VideoType, VideoRendition, NarrationProviderId, CaptionCue } from './types';
 import { db, ensureAuth } from './firebaseConfig';
-import { collection, addDoc, updateDoc, deleteDoc, doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
+import { collection, addDoc, updateDoc, deleteDoc, deleteField, doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
 import { SYSTEM_CONFIG } from './TechSpecs';
 import { GoogleGenAI } from "@google/genai"; 
-import { checkKeyUsage, optimizeKeyOrder, KeyStats } from './elevenLabsManager';
+import {
+  checkKeyUsage, optimizeKeyOrder, KeyStats, getNarrationProviders,
+  synthesizeNarrationWithTimestamps, prepareNarrationText, getNarrationVoiceId, getNarrationAudio
+} from './elevenLabsManager';
+import { hashNarrationText, forgetNarration, primeStoredNarration, fetchStoredNarration, getCachedNarration } from './narrationCache';
+import { estimateCues, cuesFromWords, wordsFromAlignment, audioDuration, downloadWebVTT } from './narrationCaptions';
+import { parseNarrationOrder, DEFAULT_NARRATION_ORDER } from './narrationProviders';
 import { InteractiveMarquee, VideoCardThumbnail, SafeAutoPlayVideo, formatVideoSource, getNeonColor } from './MainContent';
 import { Logo } from './Logo';
+import { RankingWeights, DEFAULT_RANKING_WEIGHTS, fetchRankingWeights, saveRankingWeights } from './feedRanking';
+import { markUndatedVideos } from './catalogStore';
+import { fetchRenditions } from './hlsStreaming';
 
 const R2_WORKER_URL = SYSTEM_CONFIG.cloudflare.workerUrl;
 const R2_PUBLIC_URL = SYSTEM_CONFIG.cloudflare.publicUrl;
 
-const DEFAULT_KEYS_POOL = [
-    "sk_9ad4a23044375594207d81d22a328c4d3208ba20535444cc",
-    "sk_04f3b5d83a3d0969199a1f16752bfa8c791cb3d05c2d5042",
-    "sk_1b43484ce439b67f2dcc83eeed31c3131862566d5ccc4115",
-    "sk_b4f575b9001d7274ae918ff760a3ad6e873824d8d51b412d",
-    "sk_f51173d395c6b62c1c0e8af07a7155d3c1f4e4969ab7c397",
-    "sk_1521bc09c257b77b2febd09baf058b4b71b94bb69b7b272f",
-    "sk_0a05321bd1648d5108f48071e01f0677eb9d3fd0d48681d2",
-    "sk_4113f3f63685d4178fc6cbb3c7087d8aa00023fa52d5d67c",
-    "sk_dd7ff8d61cbd2860c5b1155f64111e9231c48309098478de",
-    "bfdb7f44f618ba18bda42b1eaece504a0ee0a6a477f03fdea6ae546bf993842a",
-    "29e11204c16beea0f50e45d695de689a1ab0fcf0d0ff7da1ad90ffe3fd0cc55"
-];
-
 const formatNumber = (num: number) => {
   return new Intl.NumberFormat('en-US').format(num);
 };
@@ -135,6 +130,32 @@ const uploadToR2 = async (file: File | Blob, fileName: string, onProgress?: (per
     throw lastError;
 };
 
+// Synthesizes the narration once and keeps the MP3 on R2 (narration_url), so players stop
+// synthesizing it on every view. fresh = a new take even if this device already has one.
+// New takes come with ElevenLabs character timing for the captions; a reused take gets estimated cues.
+const recordNarration = async (text: string, fileName: string, fresh = false) => {
+    const voiceId = await getNarrationVoiceId();
+    const cached = fresh ? null : await getCachedNarration(text, voiceId);
+    let audio: Blob;
+    let cues: CaptionCue[];
+    if (cached) {
+        audio = cached;
+        cues = estimateCues(text, (await audioDuration(cached)) || undefined);
+    } else {
+        const take = await synthesizeNarrationWithTimestamps(text, voiceId);
+        audio = take.audio;
+        cues = take.alignment
+            ? cuesFromWords(wordsFromAlignment(take.alignment))
+            : estimateCues(text, (await audioDuration(audio)) || undefined);
+    }
+    await uploadToR2(audio.type ? audio : new Blob([audio], { type: 'audio/mpeg' }), fileName);
+    const url = `${R2_PUBLIC_URL}/${fileName}`;
+    // The recorded file replaces the copy synthesized on this device
+    await forgetNarration(text);
+    primeStoredNarration(url, audio);
+    return { narration_url: url, narration_hash: await hashNarrationText(text), narration_cues: cues };
+};
+
 // --- SUB-COMPONENTS ---
 
 const BrandingManager: React.FC = () => {
@@ -235,7 +256,7 @@ const AppAnalytics: React.FC<{ videos: Video[] }> = ({ videos }) => {
 
 const ApiKeysManager: React.FC = () => {
     // ... existing code ...
-    const [config, setConfig] = useState<{ gemini_key: string, elevenlabs_keys: string[] }>({ gemini_key: '', elevenlabs_keys: [] });
+    const [config, setConfig] = useState<{ gemini_key: string, elevenlabs_keys: string[], narration_providers: NarrationProviderId[] }>({ gemini_key: '', elevenlabs_keys: [], narration_providers: DEFAULT_NARRATION_ORDER });
     const [loading, setLoading] = useState(false);
     const [keyStats, setKeyStats] = useState<KeyStats[]>([]);
     const [isChecking, setIsChecking] = useState(false);
@@ -246,15 +267,12 @@ const ApiKeysManager: React.FC = () => {
                 const snap = await getDoc(doc(db, "settings", "api_config"));
                 if (snap.exists()) {
                     const data = snap.data();
-                    const existingKeys = data.elevenlabs_keys || [];
-                    const mergedKeys = Array.from(new Set([...existingKeys, ...DEFAULT_KEYS_POOL]));
-                    
+                    // Keys left over from before the narration Worker: shown once so they can be moved to its secret
                     setConfig({ 
                         gemini_key: data.gemini_key || '', 
-                        elevenlabs_keys: mergedKeys 
+                        elevenlabs_keys: data.elevenlabs_keys || [],
+                        narration_providers: parseNarrationOrder(data.narration_providers)
                     });
-                } else {
-                    setConfig({ gemini_key: '', elevenlabs_keys: DEFAULT_KEYS_POOL });
                 }
             } catch(e) {}
         };
@@ -286,13 +304,33 @@ const ApiKeysManager: React.FC = () => {
         setIsChecking(false);
     };
 
+    // Narration fallback order: enabled providers in order, first one that can speak wins
+    const toggleProvider = (id: NarrationProviderId) => {
+        setConfig(prev => {
+            const enabled = prev.narration_providers.includes(id);
+            const next = enabled ? prev.narration_providers.filter(p => p !== id) : [...prev.narration_providers, id];
+            return { ...prev, narration_providers: next.length > 0 ? next : prev.narration_providers };
+        });
+    };
+
+    const moveProviderUp = (id: NarrationProviderId) => {
+        setConfig(prev => {
+            const order = [...prev.narration_providers];
+            const i = order.indexOf(id);
+            if (i > 0) [order[i - 1], order[i]] = [order[i], order[i - 1]];
+            return { ...prev, narration_providers: order };
+        });
+    };
+
     const handleSave = async () => {
         setLoading(true);
         try {
             await setDoc(doc(db, "settings", "api_config"), {
                 gemini_key: config.gemini_key,
-                elevenlabs_keys: config.elevenlabs_keys,
-                elevenlabs_index: 0, 
+                // ElevenLabs keys live only in the narration Worker (ELEVENLABS_KEYS secret)
+                elevenlabs_keys: deleteField(),
+                elevenlabs_index: deleteField(),
+                narration_providers: config.narration_providers,
                 updated_at: serverTimestamp()
             }, { merge: true });
             alert("تم حفظ وتحديث المفاتيح بنجاح! 🔑");
@@ -386,6 +424,39 @@ const ApiKeysManager: React.FC = () => {
                          )}
                      </div>
                      <p className="text-[9px] text-gray-500 mt-4 text-center font-mono">Total Keys: {config.elevenlabs_keys.length}</p>
+                     <p className="text-[9px] text-yellow-500/80 mt-2 text-center leading-relaxed">
+                         المفاتيح لا تُحفظ في قاعدة البيانات: بعد الفحص ضعها بنفس الترتيب في secret باسم ELEVENLABS_KEYS
+                         في Worker الراوي ({SYSTEM_CONFIG.cloudflare.narrationWorkerName}). الحفظ هنا يمسح أي نسخة قديمة منها.
+                     </p>
+                 </div>
+
+                 <div className="bg-neutral-900/50 border border-white/10 p-5 rounded-[2rem] space-y-3">
+                     <label className="flex items-center gap-2 text-xs font-bold text-white uppercase tracking-widest">
+                         <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
+                         ترتيب محركات الراوي
+                     </label>
+                     <p className="text-[9px] text-gray-500">إذا فشل المحرك الأول (نفدت المفاتيح مثلاً) ينتقل الراوي للتالي تلقائياً.</p>
+                     {[...config.narration_providers, ...getNarrationProviders().map(p => p.id).filter(id => !config.narration_providers.includes(id))].map(id => {
+                         const provider = getNarrationProviders().find(p => p.id === id);
+                         const position = config.narration_providers.indexOf(id);
+                         const enabled = position >= 0;
+                         return (
+                             <div key={id} className={`flex items-center justify-between p-3 rounded-xl border ${enabled ? 'border-purple-500/40 bg-purple-900/10' : 'border-white/5 bg-black/30 opacity-50'}`}>
+                                 <div className="flex items-center gap-3">
+                                     <span className="w-6 text-center text-[11px] font-mono text-gray-400">{enabled ? `#${position + 1}` : '—'}</span>
+                                     <span className="text-xs font-bold text-white">{provider?.label || id}</span>
+                                 </div>
+                                 <div className="flex items-center gap-2">
+                                     {enabled && position > 0 && (
+                                         <button onClick={() => moveProviderUp(id)} className="px-2 py-1 rounded-lg bg-white/10 text-white text-xs active:scale-90">▲</button>
+                                     )}
+                                     <button onClick={() => toggleProvider(id)} className={`px-3 py-1 rounded-lg text-[10px] font-black active:scale-90 ${enabled ? 'bg-purple-600 text-white' : 'bg-white/10 text-gray-400'}`}>
+                                         {enabled ? 'مفعّل' : 'معطّل'}
+                                     </button>
+                                 </div>
+                             </div>
+                         );
+                     })}
                  </div>
 
                  <button 
@@ -407,6 +478,102 @@ const ApiKeysManager: React.FC = () => {
     );
 };
 
+const RANKING_LABELS: { key: keyof RankingWeights, label: string, hint: string }[] = [
+    { key: 'interest', label: 'الاهتمامات', hint: 'أقسام يفضلها المستخدم' },
+    { key: 'freshness', label: 'الحداثة', hint: 'الفيديوهات الجديدة أولاً' },
+    { key: 'trending', label: 'الترند', hint: 'فيديوهات is_trending' },
+    { key: 'similarity', label: 'التشابه', hint: 'قريب من الإعجابات وبعيد عن المستبعد' },
+    { key: 'completion', label: 'نسبة الإكمال', hint: 'أقسام يكمل المستخدم مشاهدتها' },
+    { key: 'randomness', label: 'العشوائية', hint: 'تنويع بسيط في الترتيب' }
+];
+
+const FeedRankingManager: React.FC = () => {
+    const [weights, setWeights] = useState<RankingWeights>(DEFAULT_RANKING_WEIGHTS);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        fetchRankingWeights().then(setWeights);
+    }, []);
+
+    const [marking, setMarking] = useState(false);
+
+    // Videos without created_at never show up in the paged feed (catalogStore.ts)
+    const handleMarkUndated = async () => {
+        setMarking(true);
+        try {
+            const count = await markUndatedVideos();
+            alert(count > 0 ? `تم إظهار ${count} فيديو بدون تاريخ في الفيد 📅` : "كل الفيديوهات لها تاريخ ✅");
+        } catch (e) {
+            alert("فشل تحديث الفيديوهات");
+        }
+        setMarking(false);
+    };
+
+    const handleSave = async () => {
+        setLoading(true);
+        try {
+            await saveRankingWeights(weights);
+            alert("تم حفظ أوزان الخوارزمية! ⚖️");
+        } catch (e) {
+            alert("فشل الحفظ");
+        }
+        setLoading(false);
+    };
+
+    return (
+        <div className="p-6 space-y-6 animate-in fade-in duration-500">
+             <h2 className="text-xl font-black text-emerald-500 border-r-4 border-emerald-500 pr-3 mb-6">أوزان الخوارزمية (الفيد)</h2>
+
+             <div className="bg-neutral-900/50 border border-white/10 p-5 rounded-[2rem] shadow-2xl space-y-5">
+                 {RANKING_LABELS.map(({ key, label, hint }) => (
+                     <div key={key} className="flex flex-col gap-2">
+                         <div className="flex items-center justify-between">
+                             <div className="flex flex-col">
+                                 <span className="text-xs font-black text-white">{label}</span>
+                                 <span className="text-[9px] text-gray-500 font-bold">{hint}</span>
+                             </div>
+                             <span className="font-mono text-emerald-400 text-sm font-black">{weights[key]}</span>
+                         </div>
+                         <input
+                           type="range"
+                           min={0}
+                           max={100}
+                           step={1}
+                           value={weights[key]}
+                           onChange={e => setWeights({ ...weights, [key]: Number(e.target.value) })}
+                           className="w-full accent-emerald-500"
+                         />
+                     </div>
+                 ))}
+             </div>
+
+             <div className="flex gap-3">
+                 <button
+                   onClick={() => setWeights(DEFAULT_RANKING_WEIGHTS)}
+                   className="flex-1 bg-white/5 text-white py-4 rounded-xl font-black border border-white/10 active:scale-95 transition-all"
+                 >
+                    الافتراضي
+                 </button>
+                 <button
+                   onClick={handleSave}
+                   disabled={loading}
+                   className="flex-[2] bg-emerald-600 text-white py-4 rounded-xl font-black shadow-[0_0_20px_#059669] hover:bg-emerald-700 active:scale-95 transition-all"
+                 >
+                    {loading ? 'جاري الحفظ...' : 'حفظ الأوزان في FireBase'}
+                 </button>
+             </div>
+
+             <button
+               onClick={handleMarkUndated}
+               disabled={marking}
+               className="w-full bg-white/5 text-gray-300 py-3 rounded-xl text-xs font-black border border-white/10 active:scale-95 transition-all"
+             >
+                {marking ? 'جاري الفحص...' : 'إظهار الفيديوهات القديمة بدون تاريخ (مرة واحدة)'}
+             </button>
+        </div>
+    );
+};
+
 const AISetupManager: React.FC = () => {
     const [urls, setUrls] = useState({ silent: '', talking: '' });
     const [uploading, setUploading] = useState<'silent' | 'talking' | null>(null);
@@ -812,8 +979,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   
-  // Updated viewMode to include 'branding'
-  const [viewMode, setViewMode] = useState<'videos' | 'analytics' | 'layout' | 'ai_setup' | 'keys' | 'branding'>('videos'); 
+  // Updated viewMode to include 'branding' and 'ranking'
+  const [viewMode, setViewMode] = useState<'videos' | 'analytics' | 'layout' | 'ai_setup' | 'keys' | 'branding' | 'ranking'>('videos'); 
   
   // ... existing queue and upload states ...
   const [uploadQueue, setUploadQueue] = useState<UploadJob[]>([]);
@@ -829,8 +996,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     read_narrative: false, 
     redirect_url: '',
     overlay_text: '', 
-    overlay_url: ''   
+    overlay_url: '',
+    stream_url: '',
+    renditions: [] as VideoRendition[]
   });
+  const [isProbingStream, setIsProbingStream] = useState(false);
 
   const [isAnalyzing, setIsAnalyzing] = useState(false); 
   const [analysisStatus, setAnalysisStatus] = useState<string>(''); 
@@ -838,6 +1008,22 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
   const videoPreviewRef = useRef<HTMLVideoElement>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
 
+  // Recorded narration of the video being edited (narration_url / narration_hash on its doc).
+  // pending: recorded from text that isn't saved yet; written together with it by "update"
+  const [editingNarration, setEditingNarration] = useState<{ url?: string, hash?: string, cues?: CaptionCue[], pending?: boolean }>({});
+  const [narrationStale, setNarrationStale] = useState(false);
+  const [isRecordingNarration, setIsRecordingNarration] = useState(false);
+  const [isPreviewingNarration, setIsPreviewingNarration] = useState(false);
+  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+      if (!editingNarration.url || !editingNarration.hash) { setNarrationStale(false); return; }
+      let cancelled = false;
+      hashNarrationText(prepareNarrationText(newVideo.description || newVideo.title))
+          .then(hash => { if (!cancelled) setNarrationStale(hash !== editingNarration.hash); });
+      return () => { cancelled = true; };
+  }, [newVideo.description, newVideo.title, editingNarration]);
+
   // --- QUEUE PROCESSOR ---
   useEffect(() => {
       const processQueue = async () => {
@@ -874,8 +1060,28 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                   setUploadQueue(prev => prev.map(j => j.id === job.id ? { ...j, progress: 100 } : j));
               }
 
+              // Narration recorded once here instead of on every view; a failure only costs the file
+              let narration = {};
+              if (job.meta.read_narrative) {
+                  const text = prepareNarrationText(job.meta.description || job.meta.title);
+                  const baseName = job.file ? job.file.name.replace(/[^\w.-]/g, '') : job.id;
+                  if (text) {
+                      try { narration = await recordNarration(text, `nar_${timestamp}_${baseName}.mp3`); }
+                      catch (e) { console.warn("Narration recording failed, viewers will synthesize it", e); }
+                  }
+              }
+
+              // HLS: record the renditions of the master playlist if the editor didn't already
+              let renditions: VideoRendition[] = job.meta.renditions || [];
+              if (job.meta.stream_url && renditions.length === 0) {
+                  try { renditions = await fetchRenditions(job.meta.stream_url); }
+                  catch (e) { console.warn("Stream manifest unreadable, saving without renditions", e); }
+              }
+
               const videoData = {
                   ...job.meta,
+                  ...narration,
+                  renditions,
                   video_url: finalVideoUrl,
                   poster_url: posterUrl || null,
                   created_at: serverTimestamp(),
@@ -1027,8 +1233,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         read_narrative: v.read_narrative || false,
         redirect_url: v.redirect_url || '',
         overlay_text: v.overlay_text || '',
-        overlay_url: v.overlay_url || ''
+        overlay_url: v.overlay_url || '',
+        stream_url: v.stream_url || '',
+        renditions: v.renditions || []
     });
+    setEditingNarration({ url: v.narration_url, hash: v.narration_hash, cues: v.narration_cues });
     setPreviewUrl(v.video_url);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -1036,6 +1245,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
   const cancelEdit = () => {
     // ... existing cancel edit ...
     setEditingId(null);
+    setEditingNarration({});
+    stopNarrationPreview();
     clearFileSelection();
     setNewVideo({
         title: '',
@@ -1046,10 +1257,100 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         read_narrative: false,
         redirect_url: '',
         overlay_text: '',
-        overlay_url: ''
+        overlay_url: '',
+        stream_url: '',
+        renditions: []
     });
   };
 
+  // Reads the master playlist and records its variants (resolution / bitrate) on the video
+  const handleProbeStream = async () => {
+    const url = newVideo.stream_url.trim();
+    if (!url || isProbingStream) return;
+    setIsProbingStream(true);
+    try {
+        const renditions = await fetchRenditions(url);
+        setNewVideo(prev => ({ ...prev, renditions }));
+        if (renditions.length === 0) alert("الملف صالح لكن بدون جودات متعددة (Media Playlist).");
+    } catch (e: any) {
+        alert(`تعذرت قراءة ملف البث: ${e.message}`);
+    } finally {
+        setIsProbingStream(false);
+    }
+  };
+
+  // Records (or re-records) the current text; run again after editing the description
+  const handleRecordNarration = async () => {
+    if (!editingId || isRecordingNarration) return;
+    const text = prepareNarrationText(newVideo.description || newVideo.title);
+    if (!text) return;
+    stopNarrationPreview();
+    setIsRecordingNarration(true);
+    try {
+        await ensureAuth();
+        // Re-recording an up-to-date file asks for a new take; otherwise a previewed take is kept
+        const fresh = !!editingNarration.url && !narrationStale;
+        const recorded = await recordNarration(text, `nar_${Date.now()}_${editingId}.mp3`, fresh);
+        const narration = { url: recorded.narration_url, hash: recorded.narration_hash, cues: recorded.narration_cues };
+
+        // The doc only gets a recording of the text it has: an edited description is saved first
+        const previous = initialVideos.find(v => v.id === editingId);
+        const savedText = previous ? prepareNarrationText(previous.description || previous.title) : '';
+        if (savedText !== text) {
+            setEditingNarration({ ...narration, pending: true });
+            alert("تم تسجيل السرد — اضغط تحديث لحفظه مع النص الجديد.");
+            return;
+        }
+        await updateDoc(doc(db, "videos", editingId), { ...recorded, updated_at: serverTimestamp() });
+        await forgetNarration(savedText);
+        setEditingNarration(narration);
+        alert("تم تسجيل السرد وحفظه! 🎙️");
+    } catch (e: any) {
+        alert(`فشل تسجيل السرد: ${e.message}`);
+    } finally {
+        setIsRecordingNarration(false);
+    }
+  };
+
+  // Plays the recorded file, or a take of the current text (kept, so publishing reuses it)
+  const stopNarrationPreview = () => {
+    const audio = previewAudioRef.current;
+    previewAudioRef.current = null;
+    if (audio) {
+        audio.pause();
+        URL.revokeObjectURL(audio.src);
+    }
+    setIsPreviewingNarration(false);
+  };
+
+  const handlePreviewNarration = async () => {
+    if (isPreviewingNarration) { stopNarrationPreview(); return; }
+    const text = prepareNarrationText(newVideo.description || newVideo.title);
+    if (!text) return;
+    setIsPreviewingNarration(true);
+    try {
+        const stored = editingNarration.url && !narrationStale ? await fetchStoredNarration(editingNarration.url) : null;
+        const blob = stored || await getNarrationAudio(text);
+        const audio = new Audio(URL.createObjectURL(blob));
+        audio.onended = stopNarrationPreview;
+        previewAudioRef.current = audio;
+        await audio.play();
+    } catch (e: any) {
+        stopNarrationPreview();
+        alert(`تعذر تشغيل السرد: ${e.message}`);
+    }
+  };
+
+  useEffect(() => stopNarrationPreview, []);
+
+  // Captions as WebVTT: the recorded file's timing when it's current, else estimated from the text
+  const handleExportCaptions = () => {
+    const text = prepareNarrationText(newVideo.description || newVideo.title);
+    if (!text) return;
+    const cues = editingNarration.cues?.length && !narrationStale ? editingNarration.cues : estimateCues(text);
+    downloadWebVTT(cues, newVideo.title || editingId || 'captions');
+  };
+
   const clearFileSelection = (e?: React.MouseEvent) => {
     e?.stopPropagation();
     if (previewUrl && !previewUrl.startsWith('http')) {
@@ -1067,14 +1368,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         if (!file && !newVideo.redirect_url && !previewUrl) return;
         try {
             await ensureAuth();
-            const videoData: any = { ...newVideo, created_at: serverTimestamp() };
+            const videoData: any = { ...newVideo, stream_url: newVideo.stream_url.trim() || null, created_at: serverTimestamp(), updated_at: serverTimestamp() };
+            if (videoData.stream_url && videoData.renditions.length === 0) {
+                try { videoData.renditions = await fetchRenditions(videoData.stream_url); } catch (e) {}
+            }
             if (file) {
                 const timestamp = Date.now();
                 const videoFileName = `vid_${timestamp}_${file.name.replace(/[^\w.-]/g, '')}`;
                 await uploadToR2(file, videoFileName);
                 videoData.video_url = `${R2_PUBLIC_URL}/${videoFileName}`;
             }
+            // A recording of the edited text goes in with it (still matching: the text wasn't changed again)
+            if (editingNarration.pending && editingNarration.url && !narrationStale) {
+                videoData.narration_url = editingNarration.url;
+                videoData.narration_hash = editingNarration.hash;
+                videoData.narration_cues = editingNarration.cues || [];
+            }
             await updateDoc(doc(db, "videos", editingId), videoData);
+            if (editingNarration.pending) {
+                const previous = initialVideos.find(v => v.id === editingId);
+                if (previous) forgetNarration(prepareNarrationText(previous.description || previous.title));
+            }
             alert("تم تحديث الفيديو!");
             cancelEdit();
         } catch(e) { alert("فشل التحديث"); }
@@ -1096,6 +1410,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         redirect_url: newVideo.redirect_url || null,
         overlay_text: newVideo.overlay_text || null,
         overlay_url: newVideo.overlay_url || null,
+        stream_url: newVideo.stream_url.trim() || null,
+        renditions: newVideo.renditions,
     };
 
     const newJob: UploadJob = {
@@ -1215,6 +1531,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"/></svg>
                 <span>المفاتيح</span>
             </button>
+            <button onClick={() => setViewMode('ranking')} className={getNavClass('ranking', 'emerald')}>
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3"/></svg>
+                <span>الخوارزمية</span>
+            </button>
         </div>
         <button onClick={onClose} className="absolute left-2 top-6 text-gray-500 hover:text-white p-2">
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
@@ -1227,6 +1547,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         {viewMode === 'layout' && <LayoutEditor videos={initialVideos} />}
         {viewMode === 'ai_setup' && <AISetupManager />}
         {viewMode === 'keys' && <ApiKeysManager />}
+        {viewMode === 'ranking' && <FeedRankingManager />}
         
         {viewMode === 'videos' && (
           <div className="p-4 sm:p-8 space-y-8">
@@ -1274,6 +1595,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                         </select>
                     </div>
 
+                    {newVideo.video_type === 'Long Video' && (
+                        <div className="bg-black border border-white/10 rounded-xl p-4 space-y-3">
+                            <div className="flex gap-2">
+                                <input type="text" placeholder="رابط البث HLS (master.m3u8) — اختياري" value={newVideo.stream_url} onChange={e => setNewVideo({...newVideo, stream_url: e.target.value, renditions: []})} className="flex-1 bg-neutral-900 border border-white/10 rounded-xl p-3 text-blue-400 font-mono text-xs outline-none focus:border-cyan-500" dir="ltr" />
+                                <button onClick={handleProbeStream} disabled={!newVideo.stream_url.trim() || isProbingStream} className="bg-cyan-600/20 text-cyan-400 border border-cyan-600/50 px-4 rounded-xl font-black text-xs disabled:opacity-40">
+                                    {isProbingStream ? '...' : 'فحص الجودات'}
+                                </button>
+                            </div>
+                            {newVideo.renditions.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {newVideo.renditions.map(r => (
+                                        <span key={r.url} className="text-[10px] font-black text-cyan-300 bg-cyan-600/10 border border-cyan-600/30 px-2 py-1 rounded-lg">
+                                            {r.height ? `${r.height}p` : '?'} · {Math.round(r.bandwidth / 1000)}kbps
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            <p className="text-[9px] text-gray-500 font-bold">ملف MP4 يبقى مطلوباً: يُستخدم للخزنة وللمتصفحات التي لا تدعم البث.</p>
+                        </div>
+                    )}
+
                     <div className="flex items-center justify-between bg-black border border-white/10 rounded-xl p-4">
                         <span className="text-white font-bold text-sm flex items-center gap-2">
                             🔊 تفعيل السرد الصوتي (TTS)
@@ -1286,6 +1628,32 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             <div className={`w-4 h-4 bg-white rounded-full shadow-md transition-all transform ${newVideo.read_narrative ? '-translate-x-6' : 'translate-x-0'}`}></div>
                         </button>
                     </div>
+
+                    {newVideo.read_narrative && (
+                        <div className="flex items-center justify-between gap-3 bg-black border border-white/10 rounded-xl p-4">
+                            <span className={`text-[10px] font-black ${!editingNarration.url ? 'text-gray-500' : narrationStale ? 'text-yellow-400' : 'text-green-400'}`}>
+                                {!editingId
+                                    ? 'يُسجَّل السرد ويُرفع مع الفيديو عند النشر'
+                                    : !editingNarration.url
+                                        ? 'بدون تسجيل: يُولَّد الصوت عند المشاهدة'
+                                        : narrationStale ? '⚠️ التسجيل قديم (تغير النص) — لن يُستخدم'
+                                        : editingNarration.pending ? '🎙️ السرد مسجل — يُحفظ مع التحديث' : '🎙️ السرد مسجل ومحفوظ'}
+                            </span>
+                            <div className="flex gap-2 shrink-0">
+                                <button onClick={handleExportCaptions} title="تصدير الترجمة (WebVTT)" className="bg-white/5 text-gray-300 border border-white/15 px-3 py-2 rounded-xl font-black text-xs">
+                                    VTT
+                                </button>
+                                <button onClick={handlePreviewNarration} disabled={isRecordingNarration} className="bg-white/5 text-gray-300 border border-white/15 px-4 py-2 rounded-xl font-black text-xs disabled:opacity-40">
+                                    {isPreviewingNarration ? '⏹ إيقاف' : '▶ استماع'}
+                                </button>
+                                {editingId && (
+                                    <button onClick={handleRecordNarration} disabled={isRecordingNarration} className="bg-red-600/20 text-red-400 border border-red-600/50 px-4 py-2 rounded-xl font-black text-xs disabled:opacity-40">
+                                        {isRecordingNarration ? 'جاري التسجيل...' : (editingNarration.url ? 'إعادة التسجيل' : 'تسجيل السرد')}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Actions */}
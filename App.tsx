@@ -1,12 +1,23 @@
 import React, { useState, useEffect, useCallback, useMemo, Suspense, lazy, useRef } from 'react';
-import { Video, AppView, UserInteractions } from './types';
+import { Video, AppView, UserInteractions, DownloadItem } from './types';
 import { db, ensureAuth } from './firebaseConfig';
 import { collection, query, onSnapshot } from "firebase/firestore"; 
 import AppBar from './AppBar';
 import MainContent from './MainContent';
-import { downloadVideoWithProgress, removeVideoFromCache } from './offlineManager';
-import { initSmartBuffering } from './smartCache';
+import { removeVideoFromCache } from './offlineManager';
+import { DownloadManager, subscribeToDownloads, getAggregateProgress, probeContentLength } from './downloadManager';
+import { checkDownloadFits, requestPersistentStorage, formatBytes, getStorageSettings, subscribeToStorageSettings } from './storageManager';
+import { prefetchRankedFeed } from './prefetchPolicy';
 import { SmartBrain } from './SmartLogic'; 
+import { FeedRandom } from './seededRandom';
+import { recordWatchProgress, recordLikeToggle } from './videoCounters';
+import { mergeInteractions, recordListEdits, pullRemoteInteractions, scheduleInteractionPush } from './interactionSync';
+import { bindAudioMixUser } from './audioMixer';
+import { InteractionsStore } from './persistence';
+import { VideoCatalog } from './catalogStore';
+import { SearchState, DEFAULT_SEARCH_STATE, readSearchStateFromUrl, urlHasSearchState } from './searchFilters';
+import { upsertWatchEntry, findWatchEntry } from './playbackResume';
+import { Route, readCurrentRoute, pushRoute, replaceRoute, isSameRoute, isOverlayEntry, subscribeToRoute } from './router';
 import { SYSTEM_CONFIG } from './TechSpecs'; 
 import { Logo } from './Logo';
 
@@ -21,6 +32,7 @@ const HiddenVideosPage = lazy(() => import('./HiddenVideosPage'));
 const CategoryPage = lazy(() => import('./CategoryPage'));
 const OfflinePage = lazy(() => import('./OfflinePage'));
 const UnwatchedPage = lazy(() => import('./UnwatchedPage'));
+const SearchPage = lazy(() => import('./SearchPage'));
 
 export const OFFICIAL_CATEGORIES = SYSTEM_CONFIG.officialCategories;
 
@@ -40,44 +52,121 @@ const EMERGENCY_VIDEOS: Video[] = [
   }
 ];
 
+// Remote library read failed (offline, Firestore error): retry a few times, then wait for the next start
+const LIBRARY_SYNC_RETRIES = 5;
+const LIBRARY_SYNC_RETRY_MS = 30000;
+
+// The hash wins; a bare shared search link (?q=...&cat=...) opens straight into the search view
+const readInitialRoute = (): Route => {
+  const route = readCurrentRoute();
+  if (route.view === AppView.HOME && !route.videoId && urlHasSearchState()) return { view: AppView.SEARCH };
+  return route;
+};
+
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<AppView>(AppView.HOME);
-  const [activeCategory, setActiveCategory] = useState<string>('');
+  const [initialRoute] = useState<Route>(readInitialRoute);
+  const [currentView, setCurrentView] = useState<AppView>(initialRoute.view);
+  const [activeCategory, setActiveCategory] = useState<string>(initialRoute.category || '');
+  const [searchState, setSearchState] = useState<SearchState>(() => readSearchStateFromUrl());
   
-  const [interactions, setInteractions] = useState<UserInteractions>(() => {
-    try {
-      const saved = localStorage.getItem('al-hadiqa-interactions-v12');
-      const data = saved ? JSON.parse(saved) : null;
-      return data || { likedIds: [], dislikedIds: [], savedIds: [], savedCategoryNames: [], watchHistory: [], downloadedIds: [] };
-    } catch (e) {
-      return { likedIds: [], dislikedIds: [], savedIds: [], savedCategoryNames: [], watchHistory: [], downloadedIds: [] };
-    }
-  });
+  // Versioned + validated per field (persistence.ts); older keys are migrated instead of dropped
+  const [interactions, setStoredInteractions] = useState<UserInteractions>(() => InteractionsStore.load());
+  // Every local change goes through here so removals are recorded for the cross-device merge
+  const setInteractions = useCallback<React.Dispatch<React.SetStateAction<UserInteractions>>>(update => {
+    setStoredInteractions(p => recordListEdits(p, typeof update === 'function' ? update(p) : update));
+  }, []);
 
-  const [rawVideos, setRawVideos] = useState<Video[]>(() => {
-    try {
-      const cached = localStorage.getItem('rooh1_videos_cache');
-      return cached ? JSON.parse(cached) : [];
-    } catch (e) { return []; }
-  });
+  // Firebase uid once the remote library has been merged in; pushes only start after that.
+  const syncUid = useRef<string | null>(null);
+  const latestInteractions = useRef<UserInteractions>(interactions);
+
+  // Filled from IndexedDB right after mount, then kept current by onSnapshot (catalogStore.ts)
+  const [rawVideos, setRawVideos] = useState<Video[]>([]);
+  // A server snapshot has been applied: videos missing from the catalog were really deleted
+  const [catalogSynced, setCatalogSynced] = useState(false);
 
   const [displayVideos, setDisplayVideos] = useState<Video[]>([]);
   
-  const [loading, setLoading] = useState(() => {
-    const cached = localStorage.getItem('rooh1_videos_cache');
-    return !cached;
-  });
+  const [loading, setLoading] = useState(true);
 
   const [selectedShort, setSelectedShort] = useState<{ video: Video, list: Video[] } | null>(null);
   const [selectedLong, setSelectedLong] = useState<{ video: Video, list: Video[] } | null>(null);
   const [toast, setToast] = useState<string | null>(null);
-  const [downloadProgress, setDownloadProgress] = useState<{id: string, progress: number} | null>(null);
+  const [downloadItems, setDownloadItems] = useState<DownloadItem[]>([]);
+  const downloadProgress = useMemo(() => getAggregateProgress(downloadItems), [downloadItems]);
 
   // Throttle Reference for Stability (15s Rule)
   const lastShuffleTime = useRef<number>(0);
 
   const isOverlayActive = useMemo(() => !!selectedShort || !!selectedLong, [selectedShort, selectedLong]);
 
+  // --- ROUTING (router.ts) ---
+  // #/video/:id waits here until the catalog contains that video
+  const pendingVideoId = useRef<string | null>(initialRoute.videoId || null);
+  // Route under the currently open player, so closing it can step back instead of stacking entries
+  const routeBeforeOverlay = useRef<Route | null>(null);
+  const latestVideos = useRef<Video[]>(rawVideos);
+  const openVideoId = selectedShort?.video.id || selectedLong?.video.id;
+
+  useEffect(() => { latestVideos.current = rawVideos; }, [rawVideos]);
+
+  useEffect(() => {
+    // A deep-linked video sits on top of HOME, so browser back closes the player instead of leaving the app.
+    replaceRoute(initialRoute.videoId ? { view: AppView.HOME } : initialRoute);
+  }, []);
+
+  const openVideoOverlay = useCallback((v: Video, videos: Video[]) => {
+    if (v.video_type === 'Shorts') setSelectedShort({ video: v, list: videos.filter(rv => rv.video_type === 'Shorts') });
+    else setSelectedLong({ video: v, list: videos.filter(rv => rv.video_type === 'Long Video') });
+  }, []);
+
+  useEffect(() => {
+    const id = pendingVideoId.current;
+    if (!id) return;
+    const video = rawVideos.find(v => v.id === id);
+    if (!video) return;
+    pendingVideoId.current = null;
+    SmartBrain.saveInterest(video.category);
+    openVideoOverlay(video, rawVideos);
+  }, [rawVideos, openVideoOverlay]);
+
+  // App state -> URL
+  useEffect(() => {
+    const route: Route = { view: currentView, category: activeCategory, videoId: openVideoId };
+    const current = readCurrentRoute();
+    if (isSameRoute(route, current)) return;
+
+    if (route.videoId && current.videoId) {
+      // Switching videos inside an open player
+      replaceRoute(route);
+    } else if (!route.videoId && current.videoId && isOverlayEntry()) {
+      const before = routeBeforeOverlay.current;
+      routeBeforeOverlay.current = null;
+      if (before && isSameRoute(route, before)) window.history.back();
+      else replaceRoute(route); // Closed while moving elsewhere (e.g. category chip inside the player)
+    } else {
+      if (route.videoId) routeBeforeOverlay.current = current;
+      pushRoute(route);
+    }
+  }, [currentView, activeCategory, openVideoId]);
+
+  // URL -> app state (back / forward buttons)
+  useEffect(() => subscribeToRoute(route => {
+    if (route.videoId) {
+      const video = latestVideos.current.find(v => v.id === route.videoId);
+      if (video) {
+        setSelectedShort(prev => prev?.video.id === video.id ? prev : null);
+        setSelectedLong(prev => prev?.video.id === video.id ? prev : null);
+        openVideoOverlay(video, latestVideos.current);
+      }
+      return;
+    }
+    setSelectedShort(null);
+    setSelectedLong(null);
+    setCurrentView(route.view);
+    if (route.category) setActiveCategory(route.category);
+  }), [openVideoOverlay]);
+
   // --- WAKE LOCK IMPLEMENTATION (PREVENT SLEEP) ---
   useEffect(() => {
     let wakeLock: any = null;
@@ -120,6 +209,20 @@ const App: React.FC = () => {
     setTimeout(() => setToast(null), 3000);
   };
 
+  // --- VAULT DOWNLOAD QUEUE (downloadManager.ts) ---
+  // Finished items move into the library (downloadedIds) and leave the queue.
+  useEffect(() => subscribeToDownloads(items => {
+    setDownloadItems(items);
+    const finished = items.filter(i => i.status === 'done');
+    if (finished.length === 0) return;
+    setInteractions(p => ({
+      ...p,
+      downloadedIds: [...new Set([...p.downloadedIds, ...finished.map(i => i.id)])]
+    }));
+    finished.forEach(i => DownloadManager.acknowledge(i.id));
+    showToast("تم الحفظ في الخزنة 🦁");
+  }), []);
+
   const applySmartRecommendations = useCallback((videos: Video[], userInteractions: UserInteractions) => {
     try {
         if (!videos || videos.length === 0) return [];
@@ -131,23 +234,16 @@ const App: React.FC = () => {
   }, []);
 
   const handleManualRefresh = useCallback(() => {
+    // Rotate the seed so a manual refresh still yields a fresh (reproducible) order
+    FeedRandom.reshuffle();
     const newOrder = applySmartRecommendations(rawVideos, interactions);
     setDisplayVideos(newOrder);
     lastShuffleTime.current = Date.now(); // Reset timer to prevent immediate auto-shuffle
     setCurrentView(AppView.HOME);
-    initSmartBuffering(newOrder);
+    prefetchRankedFeed(newOrder);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, [rawVideos, interactions, applySmartRecommendations]);
 
-  // Initial Sync
-  useEffect(() => {
-    if (rawVideos.length > 0) {
-       const initialDisplay = applySmartRecommendations(rawVideos, interactions);
-       setDisplayVideos(initialDisplay);
-       lastShuffleTime.current = Date.now();
-    }
-  }, []);
-
   // Sync on interactions (Throttled by 15s)
   useEffect(() => {
     if (rawVideos.length > 0) {
@@ -162,74 +258,146 @@ const App: React.FC = () => {
   }, [interactions.likedIds, interactions.dislikedIds, rawVideos, applySmartRecommendations]);
 
   // --- FIRESTORE LOGIC ---
+  // Local catalog first (catalogStore.ts, IndexedDB), then a live listener on top: the newest
+  // page by default, the whole collection only when full sync is on (OfflinePage).
+  const [fullCatalogSync, setFullCatalogSync] = useState(() => getStorageSettings().fullCatalogSync);
+  const [catalogHasMore, setCatalogHasMore] = useState(true);
+  const hasCatalogData = useRef(false);
+
+  useEffect(() => subscribeToStorageSettings(settings => setFullCatalogSync(settings.fullCatalogSync)), []);
+
+  const showCatalog = useCallback((list: Video[]) => {
+    hasCatalogData.current = true;
+    setRawVideos(list);
+    // On first load or significant update, we force update regardless of timer
+    const smartList = applySmartRecommendations(list, latestInteractions.current);
+    setDisplayVideos(smartList);
+    lastShuffleTime.current = Date.now();
+    prefetchRankedFeed(smartList);
+    setLoading(false);
+  }, [applySmartRecommendations]);
+
+  const showEmergency = useCallback(() => {
+    hasCatalogData.current = true;
+    setRawVideos(EMERGENCY_VIDEOS);
+    setDisplayVideos(EMERGENCY_VIDEOS);
+    setLoading(false);
+  }, []);
+
+  // Older pages and targeted queries: new videos join the end of the feed instead of reshuffling it
+  const appendToFeed = useCallback((fetched: Video[] | null) => {
+    setCatalogHasMore(VideoCatalog.hasMore());
+    if (!fetched || fetched.length === 0) return;
+    const list = VideoCatalog.getList();
+    hasCatalogData.current = true;
+    setRawVideos(list);
+    setDisplayVideos(prev => {
+      const base = prev === EMERGENCY_VIDEOS ? [] : prev;
+      const shown = new Set(base.map(v => v.id));
+      const playable = new Set(list.map(v => v.id));
+      const fresh = fetched.filter(v => playable.has(v.id) && !shown.has(v.id));
+      return fresh.length > 0 ? [...base, ...applySmartRecommendations(fresh, latestInteractions.current)] : prev;
+    });
+    setLoading(false);
+  }, [applySmartRecommendations]);
+
+  const handleLoadMore = useCallback(() => {
+    VideoCatalog.loadNextPage().then(appendToFeed);
+  }, [appendToFeed]);
+
+  const [categoryHasMore, setCategoryHasMore] = useState(false);
+  const handleLoadMoreCategory = useCallback(() => {
+    VideoCatalog.loadCategory(activeCategory).then(fetched => {
+      appendToFeed(fetched);
+      setCategoryHasMore(VideoCatalog.categoryHasMore(activeCategory));
+    });
+  }, [activeCategory, appendToFeed]);
+
   useEffect(() => {
-    let unsubscribe: () => void = () => {};
     let isMounted = true;
 
-    // INCREASED TIMEOUT TO 10 SECONDS TO SOLVE LOADING ISSUE
+    // Emergency mode only when there is nothing at all: no local catalog and no answer from the server
     const safetyTimer = setTimeout(() => {
-        if (isMounted && loading) {
+        if (isMounted && !hasCatalogData.current) {
             console.warn("⚠️ Force loading Emergency Mode (Database might be empty or slow network).");
-            if (rawVideos.length === 0) {
-                setRawVideos(EMERGENCY_VIDEOS);
-                setDisplayVideos(EMERGENCY_VIDEOS);
-            }
-            setLoading(false);
+            showEmergency();
+        }
+    }, 10000);
+
+    // Cross-device library: merge users/{uid}.interactions into local state once.
+    // Nothing is pushed until the remote copy has been read: a failed read is retried, never overwritten.
+    const syncLibrary = async (uid: string, attempt: number) => {
+        const remote = await pullRemoteInteractions(uid);
+        if (!isMounted) return;
+        if (remote.status === 'failed') {
+            if (attempt < LIBRARY_SYNC_RETRIES) setTimeout(() => syncLibrary(uid, attempt + 1), LIBRARY_SYNC_RETRY_MS * (attempt + 1));
+            return;
         }
-    }, 10000); // Changed from 2500 to 10000
+        syncUid.current = uid;
+        if (remote.status === 'found') {
+            // Not through setInteractions: remote changes are not new local edits
+            setStoredInteractions(p => mergeInteractions(p, remote.interactions, { keepLocalDownloads: true }));
+        } else {
+            // First device for this user: seed the remote copy from local data
+            scheduleInteractionPush(uid, latestInteractions.current);
+        }
+    };
 
-    const initFirestore = async () => {
+    ensureAuth()
+        .then(async user => {
+            if (!user) return;
+            FeedRandom.bindUser(user.uid);
+            bindAudioMixUser(user.uid);
+            syncLibrary(user.uid, 0);
+        })
+        .catch(e => console.warn("Auth warning:", e));
+
+    VideoCatalog.load().then(cached => {
+        if (isMounted && cached.length > 0 && !hasCatalogData.current) showCatalog(cached);
+    });
+
+    return () => {
+        isMounted = false;
+        clearTimeout(safetyTimer);
+    };
+  }, []); 
+
+  useEffect(() => {
+    let unsubscribe: () => void = () => {};
+    let isMounted = true;
+    let libraryChecked = false;
+
+    const startListening = async () => {
         try {
-            ensureAuth().catch(e => console.warn("Auth warning:", e));
-            
+            // Snapshots are diffed against the local copy, so it has to be in memory first
+            await VideoCatalog.load();
             if (!isMounted) return;
 
-            const q = query(collection(db, "videos"));
-            
-            unsubscribe = onSnapshot(q, { includeMetadataChanges: true }, (snapshot) => {
-                clearTimeout(safetyTimer);
-
-                const videosList = snapshot.docs.map(doc => {
-                    const data = doc.data();
-                    let vType = data.video_type;
-                    if (vType && typeof vType === 'string') {
-                        vType = vType.trim();
-                    }
-                    return {
-                        id: doc.id,
-                        ...data,
-                        video_type: vType
-                    };
-                }) as Video[];
-                
-                videosList.sort((a, b) => {
-                    const dateA = a.created_at?.seconds ? a.created_at.seconds : (a.created_at ? new Date(a.created_at).getTime() / 1000 : 0);
-                    const dateB = b.created_at?.seconds ? b.created_at.seconds : (b.created_at ? new Date(b.created_at).getTime() / 1000 : 0);
-                    return dateB - dateA;
-                });
-
-                const validVideos = videosList.filter(v => (v.video_url && v.video_url.trim() !== "") || (v.redirect_url && v.redirect_url.trim() !== ""));
-                
-                if (validVideos.length > 0) {
-                    localStorage.setItem('rooh1_videos_cache', JSON.stringify(validVideos));
-                    setRawVideos(validVideos);
-                    
-                    // On first load or significant update, we force update regardless of timer
-                    const smartList = applySmartRecommendations(validVideos, interactions);
-                    setDisplayVideos(smartList);
-                    lastShuffleTime.current = Date.now();
-                    
-                    initSmartBuffering(validVideos);
-                } else {
+            unsubscribe = VideoCatalog.watch({ fullSync: fullCatalogSync }, (list, fromCache) => {
+                if (!isMounted) return;
+                setCatalogHasMore(VideoCatalog.hasMore());
+                if (list.length > 0) {
+                    showCatalog(list);
+                } else if (!fromCache) {
                     console.log("Database empty. Using Emergency Video.");
-                    setRawVideos(EMERGENCY_VIDEOS);
-                    setDisplayVideos(EMERGENCY_VIDEOS);
+                    showEmergency();
                 }
-                
-                if (isMounted) setLoading(false);
 
+                // Saved, liked and downloaded videos can be older than any loaded page
+                if (!fromCache && !libraryChecked) {
+                    libraryChecked = true;
+                    const lib = latestInteractions.current;
+                    const referenced = [...lib.savedIds, ...lib.likedIds, ...lib.downloadedIds, ...lib.watchHistory.map(h => h.id)];
+                    VideoCatalog.ensureLibrary(referenced, lib.downloadedIds).then(updated => {
+                        if (!isMounted) return;
+                        if (updated.length > 0) setRawVideos(updated);
+                        setCatalogSynced(VideoCatalog.isSynced());
+                    });
+                }
+                if (VideoCatalog.isSynced()) setCatalogSynced(true);
             }, (err) => {
                 console.error("Firebase Error:", err);
+                if (isMounted && !hasCatalogData.current) showEmergency();
                 if (isMounted) setLoading(false);
             });
         } catch (error) {
@@ -238,17 +406,36 @@ const App: React.FC = () => {
         }
     };
 
-    initFirestore();
+    startListening();
 
     return () => {
         isMounted = false;
-        clearTimeout(safetyTimer);
         unsubscribe();
     };
-  }, []); 
+  }, [fullCatalogSync]);
+
+  // Targeted queries for the views that filter the catalog (paged mode only; no-ops under full sync)
+  useEffect(() => {
+    if (currentView === AppView.CATEGORY && activeCategory) {
+      handleLoadMoreCategory();
+    } else if (currentView === AppView.TREND) {
+      VideoCatalog.loadTrending().then(appendToFeed);
+    }
+  }, [currentView, activeCategory, handleLoadMoreCategory, appendToFeed]);
+
+  useEffect(() => {
+    if (currentView !== AppView.SEARCH) return;
+    const timer = setTimeout(() => {
+      VideoCatalog.searchTitles(searchState.query).then(appendToFeed);
+      if (searchState.category) VideoCatalog.loadCategory(searchState.category).then(appendToFeed);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [currentView, searchState.query, searchState.category, appendToFeed]);
 
   useEffect(() => { 
-    localStorage.setItem('al-hadiqa-interactions-v12', JSON.stringify(interactions)); 
+    InteractionsStore.save(interactions);
+    latestInteractions.current = interactions;
+    if (syncUid.current) scheduleInteractionPush(syncUid.current, interactions);
   }, [interactions]);
 
   useEffect(() => {
@@ -260,6 +447,7 @@ const App: React.FC = () => {
   }, [rawVideos, selectedShort]);
 
   const handleLikeToggle = (id: string) => {
+    recordLikeToggle(id, !interactions.likedIds.includes(id));
     setInteractions(p => {
       const isAlreadyLiked = p.likedIds.includes(id);
       if (isAlreadyLiked) {
@@ -270,6 +458,7 @@ const App: React.FC = () => {
   };
 
   const handleDislike = (id: string) => {
+    if (interactions.likedIds.includes(id)) recordLikeToggle(id, false);
     setInteractions(p => ({
       ...p,
       dislikedIds: Array.from(new Set([...p.dislikedIds, id])),
@@ -280,6 +469,12 @@ const App: React.FC = () => {
     setSelectedLong(null);
   };
 
+  // Videos from an imported library archive (OfflinePage): known ones keep the catalog's copy
+  const handleImportVideos = useCallback((videos: Video[]) => {
+    const list = VideoCatalog.addVideos(videos);
+    if (list) setRawVideos(list);
+  }, []);
+
   const handleDownloadToggle = async (video: Video) => {
     const videoId = video.id;
     const isDownloaded = interactions.downloadedIds.includes(videoId);
@@ -294,18 +489,24 @@ const App: React.FC = () => {
         showToast("تمت الإزالة");
       }
     } else {
-      setDownloadProgress({ id: videoId, progress: 0 });
-      const success = await downloadVideoWithProgress(video.video_url, (p) => {
-        setDownloadProgress({ id: videoId, progress: p });
-      });
-      if (success) {
-        setInteractions(p => ({
-          ...p,
-          downloadedIds: [...new Set([...p.downloadedIds, videoId])]
-        }));
-        showToast("تم الحفظ في الخزنة 🦁");
+      const queued = DownloadManager.getItem(videoId);
+      if (queued && (queued.status === 'paused' || queued.status === 'error')) {
+        DownloadManager.resume(videoId);
+        showToast("استئناف التحميل 🦁");
+      } else if (queued) {
+        showToast("قيد التحميل في الخزنة...");
+      } else {
+        const size = await probeContentLength(video.video_url);
+        const fit = await checkDownloadFits(size, DownloadManager.getItems());
+        if (fit.reason === 'vault-limit') {
+          showToast(`تجاوز الحد الأقصى للخزنة (المتبقي ${formatBytes(fit.available || 0)})`);
+          return;
+        }
+        if (fit.reason === 'quota' && !window.confirm(`المساحة المتاحة (${formatBytes(fit.available || 0)}) قد لا تكفي لهذا الفيديو (${formatBytes(fit.needed || 0)}). متابعة التحميل؟`)) return;
+        requestPersistentStorage();
+        DownloadManager.enqueue(video);
+        showToast("أضيف إلى طابور الخزنة 🦁");
       }
-      setDownloadProgress(null);
     }
   };
 
@@ -368,6 +569,9 @@ const App: React.FC = () => {
               onPlayLong={(v) => playLongVideo(v)} 
               onBack={() => setCurrentView(AppView.HOME)}
               onUpdateInteractions={setInteractions}
+              downloads={downloadItems}
+              catalogReady={catalogSynced}
+              onImportVideos={handleImportVideos}
             />
           </Suspense>
         );
@@ -387,6 +591,8 @@ const App: React.FC = () => {
               onPlayShort={playShortVideo}
               onPlayLong={(v) => playLongVideo(v, longsOnly)}
               onBack={() => setCurrentView(AppView.HOME)}
+              onLoadMore={handleLoadMoreCategory}
+              hasMore={categoryHasMore}
             />
           </Suspense>
         );
@@ -470,6 +676,21 @@ const App: React.FC = () => {
              />
            </Suspense>
         );
+      case AppView.SEARCH:
+        return (
+          <Suspense fallback={null}>
+            <SearchPage 
+              initialState={searchState}
+              allVideos={rawVideos}
+              interactions={interactions}
+              categories={OFFICIAL_CATEGORIES}
+              onPlayShort={playShortVideo}
+              onPlayLong={playLongVideo}
+              onBack={() => setCurrentView(AppView.HOME)}
+              onStateChange={setSearchState}
+            />
+          </Suspense>
+        );
       case AppView.HOME:
       default:
         return (
@@ -487,6 +708,9 @@ const App: React.FC = () => {
             downloadProgress={downloadProgress}
             syncStatus={null}
             onLike={handleLikeToggle}
+            onOpenSearch={(q: string) => { setSearchState({ ...DEFAULT_SEARCH_STATE, query: q }); setCurrentView(AppView.SEARCH); }}
+            onLoadMore={handleLoadMore}
+            hasMore={catalogHasMore}
           />
         );
     }
@@ -552,11 +776,9 @@ const App: React.FC = () => {
                 return { ...p, savedIds: isSaved ? p.savedIds.filter(x => x !== id) : [...p.savedIds, id] };
               });
             }}
-            onProgress={(id, progress) => {
-              setInteractions(p => {
-                const history = p.watchHistory.filter(h => h.id !== id);
-                return { ...p, watchHistory: [...history, { id, progress }] };
-              });
+            onProgress={(id, progress, position) => {
+              recordWatchProgress(id, progress);
+              setInteractions(p => ({ ...p, watchHistory: upsertWatchEntry(p.watchHistory, id, progress, position) }));
             }}
             onDownload={handleDownloadToggle}
             isGlobalDownloading={!!downloadProgress}
@@ -594,12 +816,11 @@ const App: React.FC = () => {
             isSaved={interactions.savedIds.includes(selectedLong.video.id)}
             isDownloaded={interactions.downloadedIds.includes(selectedLong.video.id)}
             isGlobalDownloading={!!downloadProgress}
-            onProgress={(p) => {
+            watchEntry={findWatchEntry(interactions.watchHistory, selectedLong.video.id)}
+            onProgress={(p, position) => {
               const id = selectedLong.video.id;
-              setInteractions(prev => {
-                const history = prev.watchHistory.filter(h => h.id !== id);
-                return { ...prev, watchHistory: [...history, { id, progress: p }] };
-              });
+              recordWatchProgress(id, p);
+              setInteractions(prev => ({ ...prev, watchHistory: upsertWatchEntry(prev.watchHistory, id, p, position) }));
             }}
           />
         </Suspense>
@@ -0,0 +1,33 @@
+import React from 'react';
+import { MixerChannel } from './types';
+import { useAudioMix, setChannelVolume } from './audioMixer';
+
+const CHANNELS: { channel: MixerChannel, label: string, accent: string }[] = [
+  { channel: 'video', label: '🎬 صوت الفيديو', accent: 'accent-red-600' },
+  { channel: 'narration', label: '🎙️ الراوي', accent: 'accent-cyan-400' },
+  { channel: 'avatar', label: '🔮 العرّافة', accent: 'accent-purple-500' }
+];
+
+// Per-user levels of the audio mixer (audioMixer.ts); remembered across devices
+export const AudioMixControls: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const mix = useAudioMix();
+
+  return (
+    <div className={`flex flex-col gap-2 ${className}`} onClick={e => e.stopPropagation()}>
+      {CHANNELS.map(({ channel, label, accent }) => (
+        <label key={channel} className="flex items-center gap-3">
+          <span className="w-24 shrink-0 text-[10px] font-black text-white italic">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(mix[channel] * 100)}
+            onChange={e => setChannelVolume(channel, Number(e.target.value) / 100)}
+            className={`flex-1 h-1 ${accent}`}
+          />
+          <span className="w-8 text-left text-[9px] font-black text-gray-400 tabular-nums">{Math.round(mix[channel] * 100)}</span>
+        </label>
+      ))}
+    </div>
+  );
+};
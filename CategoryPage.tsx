@@ -1,6 +1,7 @@
 
 import React, { useMemo } from 'react';
 import { Video } from './types';
+import { LoadMoreSentinel } from './MainContent';
 
 interface CategoryPageProps {
   category: string;
@@ -10,6 +11,8 @@ interface CategoryPageProps {
   onPlayShort: (v: Video, list: Video[]) => void;
   onPlayLong: (v: Video) => void;
   onBack: () => void;
+  onLoadMore?: () => void;   // Next page of this category (catalogStore.ts)
+  hasMore?: boolean;
 }
 
 // Updated NeonTrendBadge to match MainContent's style
@@ -34,7 +37,7 @@ const NeonTrendBadge = ({ isFeatured }: { isFeatured: boolean }) => {
   );
 };
 
-const CategoryPage: React.FC<CategoryPageProps> = ({ category, allVideos, isSaved, onToggleSave, onPlayShort, onPlayLong, onBack }) => {
+const CategoryPage: React.FC<CategoryPageProps> = ({ category, allVideos, isSaved, onToggleSave, onPlayShort, onPlayLong, onBack, onLoadMore, hasMore = false }) => {
   const catVideos = useMemo(() => allVideos.filter(v => v.category === category), [allVideos, category]);
 
   return (
@@ -89,6 +92,8 @@ const CategoryPage: React.FC<CategoryPageProps> = ({ category, allVideos, isSave
           );
         })}
       </div>
+
+      <LoadMoreSentinel onLoadMore={onLoadMore} hasMore={hasMore} count={catVideos.length} />
     </div>
   );
 };
@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { Video, UserInteractions } from './types';
 import { InteractiveMarquee, VideoCardThumbnail, formatVideoSource, getNeonColor, SafeAutoPlayVideo } from './MainContent';
+import { FeedRandom, shuffleWith } from './seededRandom';
 
 interface CustomDynamicLayoutProps {
   sections: any[];
@@ -40,6 +41,7 @@ const CustomDynamicLayout: React.FC<CustomDynamicLayoutProps> = ({
 
   const sectionContent = useMemo(() => {
       const result: Record<number, Video[]> = {};
+      const random = FeedRandom.createRng('custom-layout');
       
       sections.forEach((section, idx) => {
           let count = 0;
@@ -50,12 +52,12 @@ const CustomDynamicLayout: React.FC<CustomDynamicLayoutProps> = ({
           else if (section.type === 'slider_left' || section.type === 'slider_right') { count = 10; type = 'Mixed'; }
           else if (section.type === 'long_slider') { count = 10; type = 'Long Video'; }
 
-          let filtered = videos;
+          let filtered: Video[] = videos;
           if (type !== 'Mixed') {
               filtered = videos.filter(v => v.video_type === type);
           }
           
-          const shuffled = [...filtered].sort(() => 0.5 - Math.random());
+          const shuffled = shuffleWith(filtered, random);
           result[idx] = shuffled.slice(0, count);
       });
 
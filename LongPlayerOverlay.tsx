@@ -1,9 +1,17 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { Video } from './types';
-import { incrementViewsInDB } from './supabaseClient';
-import { getDeterministicStats, formatBigNumber, InteractiveMarquee, NeonTrendBadge } from './MainContent';
+import { Video, WatchHistoryEntry, CaptionSize } from './types';
+import { formatBigNumber, formatVideoSource, InteractiveMarquee, NeonTrendBadge, ResumePrompt } from './MainContent';
 import { playNarrative, stopCurrentNarrative } from './elevenLabsManager';
+import { storedNarrationOf } from './narrationCache';
+import { useCaptionSettings, useSyncedCaption, setCaptionSettings } from './narrationCaptions';
+import { useMixerChannel } from './audioMixer';
+import { AudioMixControls } from './AudioMixControls';
 import { Logo } from './Logo';
+import { getVideoStats } from './videoCounters';
+import { createEmptyInteractions } from './persistence';
+import { shareVideo, generateShareCard, clearShareCards } from './shareManager';
+import { getResumePosition, formatPlaybackTime, whenMetadataReady } from './playbackResume';
+import { attachVideoSource, StreamController, QualityLevel, AUTO_LEVEL } from './hlsStreaming';
 
 interface LongPlayerOverlayProps {
   video: Video;
@@ -20,7 +28,8 @@ interface LongPlayerOverlayProps {
   isSaved: boolean;
   isDownloaded: boolean;
   isGlobalDownloading: boolean;
-  onProgress: (p: number) => void;
+  watchEntry?: WatchHistoryEntry; // Saved position of this video, read once when it opens
+  onProgress: (p: number, position: number) => void;
 }
 
 // --- NEW DYNAMIC OVERLAY BUTTON (ROAMING) ---
@@ -67,65 +76,43 @@ const NARRATIVE_STYLES = [
     { border: 'border-pink-500', shadow: 'shadow-[0_0_20px_#ec4899]', dot: 'bg-pink-500', text: 'text-pink-50' },
 ];
 
+const CAPTION_TEXT_SIZES: Record<CaptionSize, string> = {
+    small: 'text-xs md:text-sm',
+    medium: 'text-sm md:text-base',
+    large: 'text-lg md:text-2xl'
+};
+
+const CAPTION_SIZE_OPTIONS: { size: CaptionSize, label: string }[] = [
+    { size: 'small', label: 'صغير' },
+    { size: 'medium', label: 'متوسط' },
+    { size: 'large', label: 'كبير' }
+];
+
+// Follows the narration's own timing (narrationCaptions.ts) instead of a fixed timer
 const DynamicCaptions: React.FC<{ text: string, isActive: boolean }> = ({ text, isActive }) => {
-    const [currentChunk, setCurrentChunk] = useState('');
-    const [isVisible, setIsVisible] = useState(false);
+    const settings = useCaptionSettings();
+    const caption = useSyncedCaption(text, isActive && settings.enabled, true);
+    const [shown, setShown] = useState('');
     const [currentStyle, setCurrentStyle] = useState(NARRATIVE_STYLES[0]);
-    const chunkIndex = useRef(0);
-    
-    const chunks = useMemo(() => {
-      if (!text) return [];
-      const words = text.split(/\s+/);
-      const result = [];
-      for (let i = 0; i < words.length; i += 4) {
-        result.push(words.slice(i, i + 4).join(' '));
-      }
-      return result;
-    }, [text]);
-  
-    useEffect(() => {
-      if (!isActive || chunks.length === 0) {
-        setIsVisible(false);
-        return;
-      }
-  
-      chunkIndex.current = 0;
-      
-      const showNextChunk = () => {
-        if (chunkIndex.current >= chunks.length) {
-          setIsVisible(false);
-          return;
-        }
-  
-        const randomStyle = NARRATIVE_STYLES[Math.floor(Math.random() * NARRATIVE_STYLES.length)];
-        setCurrentStyle(randomStyle);
 
-        setCurrentChunk(chunks[chunkIndex.current]);
-        setIsVisible(true);
-  
-        setTimeout(() => {
-          setIsVisible(false);
-          setTimeout(() => {
-            chunkIndex.current++;
-            showNextChunk();
-          }, 300);
-        }, 2500); 
-      };
-  
-      showNextChunk();
-    }, [chunks, isActive]);
+    // New phrase, new colour; the last one stays while it fades out
+    useEffect(() => {
+      if (!caption) return;
+      setShown(caption);
+      setCurrentStyle(NARRATIVE_STYLES[Math.floor(Math.random() * NARRATIVE_STYLES.length)]);
+    }, [caption]);
   
-    if (chunks.length === 0) return null;
+    if (!text || !settings.enabled) return null;
   
     return (
       <div className="absolute bottom-12 left-1/2 -translate-x-1/2 z-[100] w-full max-w-[90%] pointer-events-none flex flex-col items-center justify-center text-center">
         <div 
-          className={`transition-all duration-500 ease-in-out transform ${isVisible ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-4 scale-95'}`}
+          className={`transition-all duration-300 ease-in-out transform ${caption ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-4 scale-95'}`}
         >
            <div className={`bg-black/60 backdrop-blur-md border px-4 py-2 rounded-xl flex items-center justify-center gap-2 transition-colors duration-300 ${currentStyle.border} ${currentStyle.shadow}`}>
              <div className={`w-1.5 h-1.5 rounded-full animate-pulse shadow-[0_0_10px_currentColor] ${currentStyle.dot}`}></div>
-             <span className={`text-sm md:text-base font-bold italic drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] leading-relaxed tracking-wide ${currentStyle.text}`}>
-                {currentChunk}
+             <span className={`${CAPTION_TEXT_SIZES[settings.size]} font-bold italic drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] leading-relaxed tracking-wide ${currentStyle.text}`}>
+                {shown}
              </span>
            </div>
         </div>
@@ -134,9 +121,10 @@ const DynamicCaptions: React.FC<{ text: string, isActive: boolean }> = ({ text,
 };
 
 const LongPlayerOverlay: React.FC<LongPlayerOverlayProps> = ({ 
-  video, allLongVideos, onClose, onLike, onDislike, onSave, onSwitchVideo, onCategoryClick, onDownload, isLiked, isDisliked, isSaved, isDownloaded, isGlobalDownloading, onProgress 
+  video, allLongVideos, onClose, onLike, onDislike, onSave, onSwitchVideo, onCategoryClick, onDownload, isLiked, isDisliked, isSaved, isDownloaded, isGlobalDownloading, watchEntry, onProgress 
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  useMixerChannel(videoRef, 'video');
   const containerRef = useRef<HTMLDivElement>(null);
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [isAutoPlay, setIsAutoPlay] = useState(true);
@@ -145,4 +133,386 @@ const LongPlayerOverlay: React.FC<LongPlayerOverlayProps> = ({
   const [duration, setDuration] = useState(0);
   const [hasError, setHasError] = useState(false);
   const [showControls, setShowControls] = useState(true);
-  const controlsTimeoutRef = useRef<any>(null
\ No newline at end of file
+  const controlsTimeoutRef = useRef<any>(null);
+  const [isNarrating, setIsNarrating] = useState(false);
+  const captions = useCaptionSettings();
+  const [shareNote, setShareNote] = useState<string | null>(null);
+  const [resumeOffer, setResumeOffer] = useState<number | null>(null);
+  const streamRef = useRef<StreamController | null>(null);
+  const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
+  const [activeLevel, setActiveLevel] = useState(-1);
+  const [showQualityMenu, setShowQualityMenu] = useState(false);
+  const watchEntryRef = useRef(watchEntry);
+  watchEntryRef.current = watchEntry;
+
+  const stats = getVideoStats(video);
+  const relatedVideos = useMemo(() => allLongVideos.filter(v => v && v.id !== video.id && v.video_url), [allLongVideos, video.id]);
+  const emptyInteractions = useMemo(() => createEmptyInteractions(), []);
+
+  // --- SOURCE: HLS when the video has a stream_url, MP4 otherwise (hlsStreaming.ts) ---
+  // Declared before the reset effect so the source is in place when it calls play().
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v) return;
+    let cancelled = false;
+    setQualityLevels([]);
+    setActiveLevel(-1);
+    setShowQualityMenu(false);
+    attachVideoSource(v, video, formatVideoSource(video), {
+      preferProgressive: isDownloaded, // The vault copy plays offline through sw.js
+      onLevels: levels => { if (!cancelled) setQualityLevels(levels); }
+    }).then(controller => {
+      if (cancelled) {
+        controller.destroy();
+        return;
+      }
+      streamRef.current = controller;
+      if (controller.mode === 'mse') v.play().catch(() => {}); // hls.js attaches after the reset effect ran
+    });
+    return () => {
+      cancelled = true;
+      streamRef.current?.destroy();
+      streamRef.current = null;
+    };
+  }, [video.id]);
+
+  const handleQualityChange = (index: number) => {
+    streamRef.current?.setLevel(index);
+    setActiveLevel(index);
+    setShowQualityMenu(false);
+    revealControls();
+  };
+
+  const handleVideoError = () => {
+    // A broken HLS stream gets the MP4 instead of the error screen
+    if (streamRef.current?.fallbackToProgressive()) {
+      setQualityLevels([]);
+      return;
+    }
+    setHasError(true);
+  };
+
+  // --- VIDEO SWITCH: reset state, stop the previous narration ---
+  useEffect(() => {
+    setHasError(false);
+    setCurrentTime(0);
+    setDuration(0);
+    setIsPlaying(true);
+    setIsNarrating(false);
+    stopCurrentNarrative();
+    setResumeOffer(null);
+    generateShareCard(video);
+    const v = videoRef.current;
+    if (!v) return;
+
+    // Jump back to where the user stopped; the prompt offers to start over instead
+    const entry = watchEntryRef.current;
+    const applyResume = () => {
+      const at = getResumePosition(entry, v.duration);
+      if (at === null) return;
+      v.currentTime = at;
+      setCurrentTime(at);
+      setResumeOffer(at);
+    };
+    const cancelResume = whenMetadataReady(v, applyResume);
+    v.play().catch(() => { setIsPlaying(false); });
+    return cancelResume;
+  }, [video.id]);
+
+  const handleStartOver = () => {
+    const v = videoRef.current;
+    if (v) v.currentTime = 0;
+    setCurrentTime(0);
+    setResumeOffer(null);
+  };
+
+  useEffect(() => {
+    return () => {
+      stopCurrentNarrative();
+      clearShareCards();
+      if (controlsTimeoutRef.current) clearTimeout(controlsTimeoutRef.current);
+    };
+  }, []);
+
+  // --- CONTROLS AUTO-HIDE ---
+  const revealControls = () => {
+    setShowControls(true);
+    if (controlsTimeoutRef.current) clearTimeout(controlsTimeoutRef.current);
+    controlsTimeoutRef.current = setTimeout(() => {
+      if (videoRef.current && !videoRef.current.paused) setShowControls(false);
+    }, 3000);
+  };
+
+  // --- FULLSCREEN ---
+  useEffect(() => {
+    const onChange = () => setIsFullScreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullScreen = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      if (!document.fullscreenElement && containerRef.current) {
+        await containerRef.current.requestFullscreen();
+        try { await (screen.orientation as any).lock('landscape'); } catch (err) {}
+      } else if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      }
+    } catch (err) {
+      // iOS Safari: only the <video> element itself can go fullscreen
+      (videoRef.current as any)?.webkitEnterFullscreen?.();
+    }
+  };
+
+  const togglePlay = () => {
+    const v = videoRef.current;
+    if (!v) return;
+    if (v.paused) v.play().catch(() => {});
+    else v.pause();
+    revealControls();
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const v = videoRef.current;
+    if (!v) return;
+    v.currentTime = Number(e.target.value);
+    setCurrentTime(v.currentTime);
+    revealControls();
+  };
+
+  const handleEnded = () => {
+    setIsPlaying(false);
+    onProgress(1, videoRef.current?.duration || currentTime);
+    if (!isAutoPlay || relatedVideos.length === 0) return;
+    const idx = allLongVideos.findIndex(v => v.id === video.id);
+    const next = allLongVideos.slice(idx + 1).find(v => v && v.video_url) || relatedVideos[0];
+    if (next) onSwitchVideo(next);
+  };
+
+  const handlePlaying = () => {
+    setIsPlaying(true);
+    revealControls();
+    // Narrate once per video, when playback really starts
+    if (video.read_narrative && !isNarrating) {
+      const textToRead = video.description || video.title;
+      if (textToRead) {
+        setIsNarrating(true);
+        playNarrative(textToRead, storedNarrationOf(video));
+      }
+    }
+  };
+
+  const handleShare = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const outcome = await shareVideo(video);
+    if (outcome === 'copied') setShareNote('تم نسخ الرابط 🔗');
+    else if (outcome === 'failed') setShareNote('تعذرت المشاركة');
+    else return;
+    setTimeout(() => setShareNote(null), 2500);
+  };
+
+  const handleClose = () => {
+    stopCurrentNarrative();
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onClose();
+  };
+
+  const lionColor = isDownloaded ? "text-cyan-400 drop-shadow-[0_0_12px_#22d3ee]" : "text-purple-400 drop-shadow-[0_0_8px_#c084fc]";
+
+  return (
+    <div className="fixed inset-0 bg-black z-[500] flex flex-col overflow-y-auto scrollbar-hide animate-in fade-in duration-300">
+      {/* --- PLAYER --- */}
+      <div 
+        ref={containerRef}
+        onClick={togglePlay}
+        onMouseMove={revealControls}
+        className={`relative bg-black shrink-0 overflow-hidden cursor-pointer ${isFullScreen ? 'w-full h-full' : 'w-full aspect-video border-b-2 border-red-600/40 shadow-[0_10px_40px_rgba(220,38,38,0.3)]'}`}
+      >
+        <video
+          ref={videoRef}
+          poster={video.poster_url}
+          className="w-full h-full object-contain"
+          autoPlay
+          playsInline
+          crossOrigin="anonymous"
+          preload="auto"
+          onPlaying={handlePlaying}
+          onPause={() => { setIsPlaying(false); setShowControls(true); stopCurrentNarrative(); }}
+          onWaiting={() => stopCurrentNarrative()}
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration || 0)}
+          onTimeUpdate={(e) => {
+            const v = e.currentTarget;
+            setCurrentTime(v.currentTime);
+            if (v.duration) onProgress(v.currentTime / v.duration, v.currentTime);
+          }}
+          onEnded={handleEnded}
+          onError={handleVideoError}
+        />
+
+        {hasError && (
+          <div className="absolute inset-0 flex items-center justify-center bg-neutral-900 z-20">
+            <div className="text-center p-6 border-2 border-red-900/50 rounded-3xl bg-black/50 backdrop-blur-sm">
+              <svg className="w-12 h-12 text-red-700 mx-auto mb-3 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"/></svg>
+              <p className="text-red-500 font-bold text-sm">عذراً، هذا الكابوس تالف</p>
+            </div>
+          </div>
+        )}
+
+        <div className="z-20 absolute top-2 right-2"><NeonTrendBadge is_trending={video.is_trending} /></div>
+
+        {video.overlay_text && video.overlay_url && (
+          <RoamingNeonButton text={video.overlay_text} url={video.overlay_url} />
+        )}
+
+        {isNarrating && <DynamicCaptions text={video.description || video.title} isActive={isPlaying} />}
+
+        {/* CONTROLS */}
+        <div className={`absolute inset-0 z-30 flex flex-col justify-between bg-gradient-to-b from-black/60 via-transparent to-black/80 transition-opacity duration-300 ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+          <div className="flex items-center justify-between p-3">
+            <button onClick={(e) => { e.stopPropagation(); handleClose(); }} className="p-2 rounded-full bg-black/60 backdrop-blur-xl text-red-600 border border-red-600 shadow-[0_0_15px_#dc2626] active:scale-75 transition-all">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M6 18L18 6M6 6l12 12"/></svg>
+            </button>
+            <Logo className="w-8 h-8 rounded-full border border-red-500 shadow-[0_0_15px_red] object-cover" />
+          </div>
+
+          <div className="flex items-center justify-center">
+            <div className="w-16 h-16 rounded-full bg-black/50 border-2 border-red-600 flex items-center justify-center text-white shadow-[0_0_25px_rgba(220,38,38,0.6)]">
+              {isPlaying ? (
+                <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
+              ) : (
+                <svg className="w-8 h-8 ml-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 px-3 pb-3" dir="ltr" onClick={(e) => e.stopPropagation()}>
+            <span className="text-[10px] font-black text-white tabular-nums">{formatPlaybackTime(currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.1}
+              value={Math.min(currentTime, duration || 0)}
+              onChange={handleSeek}
+              className="flex-1 accent-red-600 h-1 cursor-pointer"
+            />
+            <span className="text-[10px] font-black text-white/70 tabular-nums">{formatPlaybackTime(duration)}</span>
+            {qualityLevels.length > 1 && (
+              <div className="relative">
+                <button onClick={() => setShowQualityMenu(m => !m)} className="px-1.5 py-0.5 rounded-md border border-white/30 text-[9px] font-black text-white active:scale-90">
+                  {activeLevel === -1 ? 'AUTO' : qualityLevels.find(l => l.index === activeLevel)?.label}
+                </button>
+                {showQualityMenu && (
+                  <div className="absolute bottom-8 right-0 min-w-[84px] bg-black/90 backdrop-blur-xl border border-red-600/50 rounded-xl p-1 flex flex-col shadow-[0_0_20px_rgba(220,38,38,0.4)]" dir="rtl">
+                    {[AUTO_LEVEL, ...qualityLevels].map(level => (
+                      <button
+                        key={level.index}
+                        onClick={() => handleQualityChange(level.index)}
+                        className={`px-3 py-1.5 rounded-lg text-[10px] font-black text-right ${activeLevel === level.index ? 'bg-red-600 text-white' : 'text-gray-300'}`}
+                      >
+                        {level.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            <button onClick={toggleFullScreen} className="p-1.5 text-white active:scale-75 transition-transform">
+              {isFullScreen ? (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M9 9H4m5 0V4m6 5h5m-5 0V4M9 15H4m5 0v5m6-5h5m-5 0v5"/></svg>
+              ) : (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M4 9V4h5M20 9V4h-5M4 15v5h5M20 15v5h-5"/></svg>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {resumeOffer !== null && (
+          <div className="absolute bottom-14 left-1/2 -translate-x-1/2 z-40">
+            <ResumePrompt position={resumeOffer} onResume={() => setResumeOffer(null)} onStartOver={handleStartOver} />
+          </div>
+        )}
+
+        {shareNote && (
+          <div className="absolute top-14 left-1/2 -translate-x-1/2 z-[90] bg-emerald-600 text-white px-5 py-2 rounded-full font-black text-xs shadow-[0_0_20px_#10b981] animate-in fade-in zoom-in duration-300">
+            {shareNote}
+          </div>
+        )}
+      </div>
+
+      {/* --- INFO & ACTIONS --- */}
+      {!isFullScreen && (
+        <div className="flex flex-col gap-5 p-4 pb-24" dir="rtl">
+          <div className="flex flex-col gap-2 text-right">
+            <h2 className="text-lg font-black italic text-white leading-snug">{video.title}</h2>
+            <div className="flex items-center gap-3 text-[10px] font-black text-gray-500">
+              <button onClick={() => onCategoryClick(video.category)} className="backdrop-blur-xl bg-red-600/70 border border-red-400 px-3 py-0.5 rounded-full shadow-[0_0_12px_red] text-white italic active:scale-95 transition-all">
+                {video.category}
+              </button>
+              <span>👁️ {formatBigNumber(stats.views)}</span>
+              <span>❤️ {formatBigNumber(stats.likes)}</span>
+            </div>
+            {video.description && (
+              <p className="text-[11px] text-gray-400 font-bold leading-relaxed line-clamp-3">{video.description}</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <button onClick={onLike} className={`flex-1 flex flex-col items-center gap-1 py-2.5 rounded-2xl border-2 transition-all active:scale-90 ${isLiked ? 'bg-red-600 border-red-400 text-white shadow-[0_0_20px_#ef4444]' : 'bg-white/5 border-white/10 text-white'}`}>
+              <svg className="w-5 h-5" fill={isLiked ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M14 9V5a3 3 0 00-3-3l-4 9v11h11.28a2 2 0 002-1.7l1.38-9a2 2 0 00-2-2.3zM7 22H4a2 2 0 01-2-2v-7a2 2 0 012-2h3"/></svg>
+              <span className="text-[9px] font-black">أعجبني</span>
+            </button>
+            <button onClick={onDislike} className={`flex-1 flex flex-col items-center gap-1 py-2.5 rounded-2xl border-2 transition-all active:scale-90 ${isDisliked ? 'bg-orange-600 border-orange-400 text-white shadow-[0_0_20px_#ea580c]' : 'bg-white/5 border-white/10 text-white'}`}>
+              <svg className="w-5 h-5 rotate-180" fill={isDisliked ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M14 9V5a3 3 0 00-3-3l-4 9v11h11.28a2 2 0 002-1.7l1.38-9a2 2 0 00-2-2.3zM7 22H4a2 2 0 01-2-2v-7a2 2 0 012-2h3"/></svg>
+              <span className="text-[9px] font-black">كرهت</span>
+            </button>
+            <button onClick={onSave} className={`flex-1 flex flex-col items-center gap-1 py-2.5 rounded-2xl border-2 transition-all active:scale-90 ${isSaved ? 'bg-yellow-500 border-yellow-300 text-white shadow-[0_0_20px_#facc15]' : 'bg-white/5 border-white/10 text-white'}`}>
+              <svg className="w-5 h-5" fill={isSaved ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"/></svg>
+              <span className="text-[9px] font-black">حفظ</span>
+            </button>
+            <button onClick={onDownload} className={`flex-1 flex flex-col items-center gap-1 py-2.5 rounded-2xl border-2 transition-all active:scale-90 bg-white/5 ${isDownloaded ? 'border-cyan-400 shadow-[0_0_20px_#22d3ee]' : 'border-purple-500/30'}`}>
+              <svg className={`w-5 h-5 ${lionColor} ${isGlobalDownloading ? 'animate-bounce' : ''}`} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M12 2c-4 0-7 3-7 7 0 2 1 4 2 5-1 1-2 3-2 5 0 2 2 3 4 3h6c2 0 4-1 4-3 0-2-1-4-2-5 1-1 2-3 2-5 0-4-3-7-7-7z" className="opacity-40" />
+                <path d="M9 9h.01M15 9h.01M10 13c1 1 3 1 4 0" />
+              </svg>
+              <span className="text-[9px] font-black text-white">{isDownloaded ? 'Saved' : 'Vault'}</span>
+            </button>
+            <button onClick={handleShare} className="flex-1 flex flex-col items-center gap-1 py-2.5 rounded-2xl border-2 transition-all active:scale-90 bg-white/5 border-white/10 text-white active:bg-emerald-600 active:shadow-[0_0_20px_#10b981]">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"/></svg>
+              <span className="text-[9px] font-black">شارك</span>
+            </button>
+          </div>
+
+          <AudioMixControls className="px-1" />
+
+          <div className="flex items-center justify-between px-1">
+            <span className="text-[11px] font-black text-white italic">ترجمة السرد</span>
+            <div className="flex gap-1.5">
+              <button onClick={() => setCaptionSettings({ enabled: false })} className={`px-2.5 py-1 rounded-full text-[9px] font-black border transition-all active:scale-90 ${!captions.enabled ? 'bg-red-600 border-red-400 text-white' : 'bg-white/5 border-white/15 text-gray-300'}`}>إيقاف</button>
+              {CAPTION_SIZE_OPTIONS.map(({ size, label }) => (
+                <button key={size} onClick={() => setCaptionSettings({ enabled: true, size })} className={`px-2.5 py-1 rounded-full text-[9px] font-black border transition-all active:scale-90 ${captions.enabled && captions.size === size ? 'bg-red-600 border-red-400 text-white' : 'bg-white/5 border-white/15 text-gray-300'}`}>{label}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between px-1">
+            <span className="text-[11px] font-black text-white italic">التالي تلقائياً</span>
+            <button onClick={() => setIsAutoPlay(p => !p)} className={`w-12 h-6 rounded-full border-2 relative transition-all ${isAutoPlay ? 'bg-red-600 border-red-400 shadow-[0_0_12px_red]' : 'bg-white/5 border-white/20'}`}>
+              <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${isAutoPlay ? 'left-0.5' : 'right-0.5'}`}></span>
+            </button>
+          </div>
+
+          {relatedVideos.length > 0 && (
+            <div className="flex flex-col gap-3">
+              <h3 className="text-sm font-black text-red-500 italic text-right">كوابيس أخرى</h3>
+              <InteractiveMarquee videos={relatedVideos} onPlay={onSwitchVideo} interactions={emptyInteractions} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LongPlayerOverlay;
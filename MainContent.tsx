@@ -1,11 +1,15 @@
 import React, { useMemo, useState, useRef, useEffect, useCallback } from 'react';
 import { Video, UserInteractions } from './types';
-import { downloadVideoWithProgress } from './offlineManager';
 import { db, ensureAuth } from './firebaseConfig';
 import { doc, getDoc } from 'firebase/firestore';
 import CustomDynamicLayout from './CustomDynamicLayout';
-import { bufferVideoChunk, getVideoSrcFromCache, bufferImage } from './smartCache'; 
+import { getVideoSrcFromCache, bufferImage } from './smartCache'; 
+import { usePrefetchOnApproach } from './prefetchPolicy';
 import { Logo } from './Logo';
+import { FeedRandom, shuffleWith } from './seededRandom';
+import { getVideoStats } from './videoCounters';
+import { buildSearchIndex, searchVideos, suggestQueries, highlightMatches } from './arabicSearch';
+import { formatPlaybackTime, getUnfinishedEntries } from './playbackResume';
 
 export const LOGO_URL = "https://i.top4top.io/p_3643ksmii1.jpg";
 
@@ -40,19 +44,6 @@ export const getNeonColor = (id: string) => {
   return STATIC_NEON_BORDERS[Math.abs(hash) % STATIC_NEON_BORDERS.length];
 };
 
-export const getDeterministicStats = (seed: string) => {
-  let hash = 0;
-  if (!seed) return { views: 0, likes: 0 };
-  for (let i = 0; i < seed.length; i++) {
-    hash = ((hash << 5) - hash) + seed.charCodeAt(i);
-    hash |= 0;
-  }
-  const baseViews = Math.abs(hash % 900000) + 500000; 
-  const views = baseViews * (Math.abs(hash % 5) + 2); 
-  const likes = Math.abs(Math.floor(views * (0.12 + (Math.abs(hash % 15) / 100)))); 
-  return { views, likes };
-};
-
 export const formatBigNumber = (num: number) => {
   if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
   if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
@@ -82,6 +73,8 @@ export const SafeAutoPlayVideo: React.FC<React.VideoHTMLAttributes<HTMLVideoElem
   // Do not start with undefined or wait for cache
   const [activeSrc, setActiveSrc] = useState<string | undefined>(props.src);
   const [isLoaded, setIsLoaded] = useState(false);
+
+  usePrefetchOnApproach(videoRef, props.src);
   
   // Preload poster image to cache
   useEffect(() => {
@@ -106,12 +99,9 @@ export const SafeAutoPlayVideo: React.FC<React.VideoHTMLAttributes<HTMLVideoElem
           if (cachedBlobUrl) {
               // If we have a blob, use it (better for offline/repeat)
               setActiveSrc(cachedBlobUrl);
-          } else {
-              // If no blob, trigger background buffer for NEXT time, 
-              // but let current component continue using network URL.
-              // We do NOT await this or block execution
-              bufferVideoChunk(originalSrc).catch(() => {});
           }
+          // No blob: keep the network URL. Buffering for next time is left to the
+          // prefetch policy (usePrefetchOnApproach above: only near the viewport and when the network allows).
       }
     };
 
@@ -222,9 +212,17 @@ export const NeonTrendBadge = ({ is_trending }: { is_trending: boolean }) => {
   );
 };
 
-const JoyfulNeonLion: React.FC<{ isDownloading: boolean, hasDownloads: boolean }> = ({ isDownloading, hasDownloads }) => (
+// progress: aggregate percentage of the download queue (downloadManager.ts), count: items still pending
+const JoyfulNeonLion: React.FC<{ isDownloading: boolean, hasDownloads: boolean, progress?: number, count?: number }> = ({ isDownloading, hasDownloads, progress = 0, count = 0 }) => (
   <div className="relative">
     {isDownloading && <div className="absolute inset-0 bg-yellow-400 blur-lg rounded-full opacity-40 animate-pulse"></div>}
+    {isDownloading && (
+      <svg className="absolute -inset-1 w-9 h-9 -rotate-90 pointer-events-none" viewBox="0 0 36 36">
+        <circle cx="18" cy="18" r="16" fill="none" stroke="rgba(250,204,21,0.2)" strokeWidth="2" />
+        <circle cx="18" cy="18" r="16" fill="none" stroke="#facc15" strokeWidth="2" strokeLinecap="round"
+          strokeDasharray={`${(Math.max(0, Math.min(100, progress)) / 100) * 100.5} 100.5`} className="transition-all duration-500" />
+      </svg>
+    )}
     <svg 
       className={`w-7 h-7 transition-all duration-500 ${isDownloading ? 'text-yellow-400 scale-110 drop-shadow-[0_0_10px_#facc15]' : hasDownloads ? 'text-cyan-400 drop-shadow-[0_0_8px_#22d3ee]' : 'text-gray-600'}`} 
       viewBox="0 0 24 24" 
@@ -238,6 +236,11 @@ const JoyfulNeonLion: React.FC<{ isDownloading: boolean, hasDownloads: boolean }
       <circle cx="14.5" cy="11" r="0.8" fill="currentColor" />
       <path d="M10 15.5c.5 1 1.5 1.5 2 1.5s1.5-.5 2-1.5" strokeLinecap="round" />
     </svg>
+    {isDownloading && (
+      <span className="absolute -bottom-2 left-1/2 -translate-x-1/2 px-1 rounded bg-black/80 border border-yellow-400/50 text-[7px] font-black text-yellow-400 leading-tight whitespace-nowrap">
+        {Math.floor(progress)}%{count > 1 ? ` ·${count}` : ''}
+      </span>
+    )}
   </div>
 );
 
@@ -280,7 +283,7 @@ export const VideoCardThumbnail: React.FC<{
 }> = ({ video, isOverlayActive, interactions, onLike, onCategoryClick }) => {
   const [hasError, setHasError] = useState(false);
   
-  const stats = useMemo(() => video ? getDeterministicStats(video.video_url) : { views: 0, likes: 0 }, [video?.video_url]);
+  const stats = getVideoStats(video);
   const formattedSrc = formatVideoSource(video);
   const neonStyle = video ? getNeonColor(video.id) : 'border-white/20';
   const isLiked = interactions?.likedIds?.includes(video?.id) || false;
@@ -578,6 +581,30 @@ export const InteractiveMarquee: React.FC<{
   );
 };
 
+// Shown by both players when a video reopens at its saved position
+export const ResumePrompt: React.FC<{
+  position: number,
+  onResume: () => void,
+  onStartOver: () => void
+}> = ({ position, onResume, onStartOver }) => {
+  useEffect(() => {
+    // Resuming is the default: the prompt just gets out of the way after a few seconds
+    const t = setTimeout(onResume, 6000);
+    return () => clearTimeout(t);
+  }, [position]);
+
+  return (
+    <div className="flex items-center gap-2 bg-black/80 backdrop-blur-xl border-2 border-yellow-500/60 rounded-full p-1.5 shadow-[0_0_25px_rgba(234,179,8,0.4)] animate-in fade-in zoom-in duration-300" dir="rtl" onClick={(e) => e.stopPropagation()}>
+      <button onClick={onResume} className="px-4 py-2 rounded-full bg-yellow-500 text-black text-[11px] font-black active:scale-90 transition-all">
+        استكمال من <span dir="ltr">{formatPlaybackTime(position)}</span>
+      </button>
+      <button onClick={onStartOver} className="px-4 py-2 rounded-full text-white text-[11px] font-black active:scale-90 transition-all">
+        من البداية
+      </button>
+    </div>
+  );
+};
+
 const ResumeNotificationFull: React.FC<{
   video: Video,
   pos: { top: string, left: string, anim: string },
@@ -716,6 +743,39 @@ const ResumeNotificationFull: React.FC<{
   );
 };
 
+// Renders text with the words matching the search query lit up (works on the original, un-normalized text)
+export const HighlightedText: React.FC<{ text: string, query: string, snippetRadius?: number }> = ({ text, query, snippetRadius }) => (
+  <>
+    {highlightMatches(text, query, snippetRadius).map((seg, i) => seg.match ? (
+      <mark key={i} className="bg-transparent text-yellow-400 drop-shadow-[0_0_6px_rgba(250,204,21,0.8)]">{seg.text}</mark>
+    ) : (
+      <React.Fragment key={i}>{seg.text}</React.Fragment>
+    ))}
+  </>
+);
+
+// End of a paged list (catalogStore.ts): asks for the next page when it gets near the screen.
+// `count` re-arms it after each page, in case the new items didn't push it out of view.
+export const LoadMoreSentinel: React.FC<{ onLoadMore?: () => void, hasMore: boolean, count: number }> = ({ onLoadMore, hasMore, count }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || !onLoadMore || typeof IntersectionObserver === 'undefined') return;
+    const io = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) onLoadMore();
+    }, { rootMargin: '0px 0px 100% 0px' });
+    io.observe(element);
+    return () => io.disconnect();
+  }, [onLoadMore, hasMore, count]);
+
+  if (!hasMore || !onLoadMore) return null;
+  return (
+    <div ref={ref} className="w-full py-6 flex justify-center">
+      <div className="w-6 h-6 rounded-full border-2 border-red-600 border-t-transparent animate-spin"></div>
+    </div>
+  );
+};
+
 const SectionHeader: React.FC<{ title: string, color: string }> = ({ title, color }) => (
   <div className="px-5 py-2 flex items-center gap-2.5">
     <div className={`w-1.5 h-3.5 ${color} rounded-full shadow-[0_0_12px_currentColor]`}></div>
@@ -724,7 +784,7 @@ const SectionHeader: React.FC<{ title: string, color: string }> = ({ title, colo
 );
 
 const MainContent: React.FC<any> = ({ 
-  videos, categoriesList, interactions, onPlayShort, onPlayLong, onCategoryClick, onHardRefresh, onOfflineClick, loading, isOverlayActive, downloadProgress, syncStatus, onLike
+  videos, categoriesList, interactions, onPlayShort, onPlayLong, onCategoryClick, onHardRefresh, onOfflineClick, loading, isOverlayActive, downloadProgress, syncStatus, onLike, onOpenSearch, onLoadMore, hasMore = false
 }) => {
   const [pullOffset, setPullOffset] = useState(0);
   const [startY, setStartY] = useState(0);
@@ -778,13 +838,14 @@ const MainContent: React.FC<any> = ({
     marqueeLongs4
   } = useMemo(() => {
      const usedIds = new Set<string>();
+     const random = FeedRandom.createRng('home-batches');
      
      const getUniqueBatch = (source: Video[], count: number): Video[] => {
         let available = source.filter(v => !usedIds.has(v.id));
         if (available.length < count) {
             const leftovers = available;
             const recyclePool = source.filter(v => !leftovers.includes(v));
-            const shuffledRecycle = [...recyclePool].sort(() => 0.5 - Math.random());
+            const shuffledRecycle = shuffleWith(recyclePool, random);
             available = [...leftovers, ...shuffledRecycle];
         }
         const selected = available.slice(0, count);
@@ -825,19 +886,22 @@ const MainContent: React.FC<any> = ({
 
   const unfinishedVideos = useMemo(() => {
     if (!interactions?.watchHistory) return [];
-    return interactions.watchHistory
-      .filter((h: any) => h.progress > 0.05 && h.progress < 0.95)
+    return getUnfinishedEntries(interactions.watchHistory)
       .map((h: any) => safeVideos.find((vid: any) => vid && (vid.id === h.id)))
-      .filter((v: any) => v !== undefined && v !== null && v.video_url).reverse();
+      .filter((v: any) => v !== undefined && v !== null && v.video_url);
   }, [interactions?.watchHistory, safeVideos]);
 
+  // فهرس البحث يُبنى مرة واحدة لكل تحديث للمكتبة وليس مع كل حرف
+  const searchIndex = useMemo(() => buildSearchIndex(safeVideos.filter((v: any) => v && v.video_url)), [safeVideos]);
+
   const searchResults = useMemo(() => {
     if (!searchQuery.trim()) return [];
-    return safeVideos.filter((v: any) => 
-      v && v.video_url && (v.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-      v.category.toLowerCase().includes(searchQuery.toLowerCase()))
-    ).slice(0, 15);
-  }, [searchQuery, safeVideos]);
+    return searchVideos(searchIndex, searchQuery, 15).map(r => r.video);
+  }, [searchQuery, searchIndex]);
+
+  const searchSuggestions = useMemo(() => 
+    suggestQueries(searchIndex, searchQuery).filter(s => s.trim() !== searchQuery.trim()),
+  [searchQuery, searchIndex]);
 
   const getRandomPosition = () => {
     const top = Math.floor(Math.random() * 60) + 15 + '%'; 
@@ -915,7 +979,7 @@ const MainContent: React.FC<any> = ({
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"/></svg>
           </button>
           <button onClick={onOfflineClick} className="p-1 transition-all active:scale-90 relative group">
-            <JoyfulNeonLion isDownloading={downloadProgress !== null} hasDownloads={interactions?.downloadedIds?.length > 0} />
+            <JoyfulNeonLion isDownloading={downloadProgress != null} progress={downloadProgress?.progress} count={downloadProgress?.active} hasDownloads={interactions?.downloadedIds?.length > 0} />
           </button>
         </div>
       </header>
@@ -1073,6 +1137,8 @@ const MainContent: React.FC<any> = ({
         />
       )}
 
+      <LoadMoreSentinel onLoadMore={onLoadMore} hasMore={hasMore} count={safeVideos.length} />
+
       {/* Banner Ad Spacer - EXACT 50px - Closes page content */}
       <div className="w-full h-[50px] bg-transparent mt-4 pointer-events-none"></div>
 
@@ -1111,9 +1177,24 @@ const MainContent: React.FC<any> = ({
               placeholder="ابحث في أرشيف الحديقة..." 
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && onOpenSearch) { setIsSearchOpen(false); onOpenSearch(searchQuery); } }}
               className="flex-1 bg-white/5 border-2 border-white/10 rounded-2xl py-4.5 px-7 text-white text-base outline-none focus:border-red-600 transition-all font-black text-right shadow-inner"
             />
           </div>
+          {onOpenSearch && (
+            <button onClick={() => { setIsSearchOpen(false); onOpenSearch(searchQuery); }} className="mx-4 mt-3 py-2.5 rounded-2xl border border-yellow-500/40 bg-yellow-500/10 text-yellow-400 text-[11px] font-black active:scale-95 transition-all">
+              كل النتائج مع الفلاتر والترتيب ←
+            </button>
+          )}
+          {searchSuggestions.length > 0 && (
+            <div className="flex gap-2 px-4 py-3 overflow-x-auto scrollbar-hide border-b border-white/5" dir="rtl">
+              {searchSuggestions.map(s => (
+                <button key={s} onClick={() => setSearchQuery(s)} className="shrink-0 px-4 py-2 rounded-full border border-red-600/40 bg-red-600/10 text-[11px] font-black text-white active:scale-90 transition-all">
+                  {s}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="flex-1 overflow-y-auto p-5 space-y-5">
             {searchResults.length > 0 ? searchResults.map((v: any) => v && v.video_url && (
               <div key={v.id} onClick={() => { setIsSearchOpen(false); handleSmartPlay(v); }} className={`flex gap-4.5 p-4 bg-white/5 rounded-3xl border-2 active:scale-95 transition-all shadow-xl group ${getNeonColor(v.id)}`}>
@@ -1121,7 +1202,10 @@ const MainContent: React.FC<any> = ({
                   <video src={formatVideoSource(v)} poster={v.poster_url} crossOrigin="anonymous" preload="metadata" className="w-full h-full object-cover opacity-100 contrast-110 saturate-125 transition-opacity" onError={(e) => e.currentTarget.style.display = 'none'} />
                 </div>
                 <div className="flex flex-col justify-center flex-1">
-                  <h3 className="text-sm font-black text-white italic line-clamp-1 text-right">{v.title}</h3>
+                  <h3 className="text-sm font-black text-white italic line-clamp-1 text-right"><HighlightedText text={v.title} query={searchQuery} /></h3>
+                  {v.description && (
+                    <p className="text-[10px] text-gray-400 font-bold line-clamp-1 text-right mt-1"><HighlightedText text={v.description} query={searchQuery} snippetRadius={40} /></p>
+                  )}
                   <span className="text-[9px] text-red-500 font-black uppercase mt-1.5 text-right italic tracking-widest bg-red-600/10 self-end px-2 py-0.5 rounded-md border border-red-600/20">{v.category}</span>
                 </div>
               </div>
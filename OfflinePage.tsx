@@ -1,7 +1,13 @@
 
-import React, { useMemo, useState } from 'react';
-import { Video, UserInteractions } from './types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Video, UserInteractions, DownloadItem, DownloadStatus, VaultIssue } from './types';
 import { removeVideoFromCache } from './offlineManager';
+import { DownloadManager } from './downloadManager';
+import { StorageReport, VAULT_SIZE_OPTIONS, getStorageReport, getStorageSettings, requestPersistentStorage, setMaxVaultBytes, setFullCatalogSync, formatBytes } from './storageManager';
+import { clearBufferCache } from './smartCache';
+import { clearNarrationCache } from './narrationCache';
+import { verifyVault } from './vaultIntegrity';
+import { ARCHIVE_EXTENSION, exportVaultArchive, importVaultArchive, mergeImportedInteractions } from './vaultArchive';
 
 interface OfflinePageProps {
   allVideos: Video[];
@@ -10,10 +16,36 @@ interface OfflinePageProps {
   onPlayLong: (v: Video) => void;
   onBack: () => void;
   onUpdateInteractions: (p: (prev: UserInteractions) => UserInteractions) => void;
+  downloads?: DownloadItem[]; // Download queue (downloadManager.ts)
+  catalogReady?: boolean;     // allVideos mirrors Firestore, so missing videos really were deleted
+  onImportVideos?: (videos: Video[]) => void; // Metadata from an imported archive (vaultArchive.ts)
 }
 
+const STATUS_LABELS: Record<DownloadStatus, string> = {
+  queued: 'في الانتظار',
+  downloading: 'جاري التحميل',
+  paused: 'متوقف مؤقتاً',
+  error: 'انقطع — سيُستأنف تلقائياً',
+  done: 'اكتمل'
+};
+
+const ISSUE_LABELS: Record<VaultIssue, string> = {
+  missing: 'الملف مفقود',
+  corrupt: 'ملف تالف',
+  stale: 'نسخة قديمة'
+};
+
+const IssueBadge: React.FC<{ issue: VaultIssue, onRedownload: () => void }> = ({ issue, onRedownload }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onRedownload(); }}
+    className="absolute top-2 right-2 z-30 px-2 py-1 rounded-lg bg-yellow-500/90 border border-yellow-300 text-black text-[8px] font-black shadow-[0_0_10px_#facc15] active:scale-90"
+  >
+    ⚠️ {ISSUE_LABELS[issue]} — إعادة تحميل
+  </button>
+);
+
 const OfflinePage: React.FC<OfflinePageProps> = ({ 
-  allVideos, interactions, onPlayShort, onPlayLong, onBack, onUpdateInteractions 
+  allVideos, interactions, onPlayShort, onPlayLong, onBack, onUpdateInteractions, downloads = [], catalogReady = false, onImportVideos 
 }) => {
   // State for handling the deletion confirmation popup
   const [videoToDelete, setVideoToDelete] = useState<Video | null>(null);
@@ -30,6 +62,127 @@ const OfflinePage: React.FC<OfflinePageProps> = ({
       .filter((v): v is Video => !!v); // Filter out undefined
   }, [allVideos, interactions.downloadedIds]);
 
+  const pendingDownloads = downloads.filter(d => d.status !== 'done');
+
+  // Integrity check on open (vaultIntegrity.ts): deleted videos leave the library, broken files get flagged
+  const [issues, setIssues] = useState<Record<string, VaultIssue>>({});
+  useEffect(() => {
+    let isMounted = true;
+    verifyVault(allVideos, interactions.downloadedIds, {
+      catalogReady,
+      checkRemote: true,
+      queuedIds: downloads.map(d => d.id)
+    }).then(report => {
+      if (!isMounted) return;
+      setIssues(report.issues);
+      if (report.removedIds.length > 0) {
+        onUpdateInteractions(prev => ({
+          ...prev,
+          downloadedIds: prev.downloadedIds.filter(id => !report.removedIds.includes(id))
+        }));
+      }
+      if (report.deletedEntries > 0) refreshStorage();
+    }).catch(e => console.warn("Vault check failed", e));
+    return () => { isMounted = false; };
+  }, [catalogReady]);
+
+  // sw.js answers the manager's Range requests from the vault first: the old copy has to go,
+  // or the "new" download is read back out of it
+  const redownload = async (video: Video) => {
+    await removeVideoFromCache(video.video_url);
+    DownloadManager.enqueue(video);
+    setIssues(prev => {
+      const next = { ...prev };
+      delete next[video.id];
+      return next;
+    });
+  };
+
+  const flaggedVideos = downloadedVideos.filter(v => issues[v.id]);
+
+  // Storage panel: refreshed on open and whenever the library or the queue length changes
+  const [storage, setStorage] = useState<StorageReport | null>(null);
+  const refreshStorage = () => { getStorageReport().then(setStorage); };
+  useEffect(refreshStorage, [interactions.downloadedIds.length, pendingDownloads.length]);
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    refreshStorage();
+  };
+
+  const handleMaxVault = (bytes: number) => {
+    setMaxVaultBytes(bytes);
+    refreshStorage();
+  };
+
+  // Opt-in: keep every video doc on the device (App.tsx switches the catalog listener)
+  const [fullSync, setFullSync] = useState(() => getStorageSettings().fullCatalogSync);
+  const handleFullSync = (enabled: boolean) => {
+    setFullCatalogSync(enabled);
+    setFullSync(enabled);
+  };
+
+  const handleClearBuffer = async () => {
+    await clearBufferCache();
+    refreshStorage();
+  };
+
+  const handleClearNarration = async () => {
+    await clearNarrationCache();
+    refreshStorage();
+  };
+
+  // Library transfer (vaultArchive.ts): one file to carry downloads and likes to another phone
+  const [includeFiles, setIncludeFiles] = useState(true);
+  const [archiveBusy, setArchiveBusy] = useState(false);
+  const [archiveMessage, setArchiveMessage] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setArchiveBusy(true);
+    setArchiveMessage(null);
+    try {
+      const archive = await exportVaultArchive(allVideos, interactions, { includeFiles });
+      const url = URL.createObjectURL(archive.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = archive.fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+      setArchiveMessage(`تم التصدير: ${archive.videoCount} فيديو، ${archive.fileCount} ملف (${formatBytes(archive.blob.size)})`);
+    } catch (e) {
+      console.warn("Archive export failed", e);
+      setArchiveMessage('فشل التصدير');
+    } finally {
+      setArchiveBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setArchiveBusy(true);
+    setArchiveMessage(null);
+    try {
+      const result = await importVaultArchive(file);
+      onImportVideos?.(result.videos);
+      onUpdateInteractions(prev => mergeImportedInteractions(prev, result));
+      // Downloaded on the old phone but exported without files: fetch them again when possible
+      if (navigator.onLine) result.missingFiles.forEach(v => DownloadManager.enqueue(v));
+      const notes = [`تمت استعادة ${result.restoredIds.length} ملف`];
+      if (result.missingFiles.length > 0) notes.push(`${result.missingFiles.length} بدون ملف${navigator.onLine ? ' (أُضيفت لقائمة التحميل)' : ''}`);
+      if (result.quotaExceeded) notes.push('المساحة لم تكفِ لكل الملفات');
+      setArchiveMessage(notes.join(' — '));
+      refreshStorage();
+    } catch (err: any) {
+      console.warn("Archive import failed", err);
+      setArchiveMessage(err?.message || 'فشل الاستيراد');
+    } finally {
+      setArchiveBusy(false);
+    }
+  };
+
   // Split into separate lists
   const shortsList = downloadedVideos.filter(v => v.video_type === 'Shorts');
   const longList = downloadedVideos.filter(v => v.video_type === 'Long Video');
@@ -65,6 +218,137 @@ const OfflinePage: React.FC<OfflinePageProps> = ({
         </button>
       </header>
 
+      {/* STORAGE */}
+      {storage && (
+        <section className="mx-2 p-5 rounded-[2rem] bg-neutral-900 border border-white/5 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-[12px] font-black text-white italic">مساحة التخزين</h2>
+            {storage.persisted ? (
+              <span className="text-[8px] font-black text-cyan-400">🔒 تخزين دائم</span>
+            ) : (
+              <button onClick={handlePersist} className="text-[9px] font-black text-yellow-400 underline underline-offset-4 active:scale-90">تفعيل التخزين الدائم</button>
+            )}
+          </div>
+          {storage.quota > 0 && (
+            <>
+              <div className="h-2 rounded-full bg-white/10 overflow-hidden flex">
+                <div className="h-full bg-cyan-400 shadow-[0_0_8px_#22d3ee]" style={{ width: `${Math.min(100, (storage.vaultBytes / storage.quota) * 100)}%` }} />
+                <div className="h-full bg-purple-500" style={{ width: `${Math.min(100, (storage.bufferBytes / storage.quota) * 100)}%` }} />
+                <div className="h-full bg-orange-400" style={{ width: `${Math.min(100, (storage.narrationBytes / storage.quota) * 100)}%` }} />
+                <div className="h-full bg-white/30" style={{ width: `${Math.min(100, (Math.max(0, storage.usage - storage.vaultBytes - storage.bufferBytes - storage.narrationBytes) / storage.quota) * 100)}%` }} />
+              </div>
+              <p className="text-[9px] font-bold text-gray-400">
+                مستخدم {formatBytes(storage.usage)} من {formatBytes(storage.quota)} — متاح {formatBytes(Math.max(0, storage.quota - storage.usage))}
+              </p>
+            </>
+          )}
+          <div className="flex justify-between text-[9px] font-bold text-gray-500">
+            <span><span className="text-cyan-400">●</span> الخزنة {formatBytes(storage.vaultBytes)}</span>
+            <span>
+              <span className="text-purple-400">●</span> تشغيل مسبق {formatBytes(storage.bufferBytes)}
+              {storage.bufferBytes > 0 && <button onClick={handleClearBuffer} className="mr-2 text-red-400 underline underline-offset-2">مسح</button>}
+            </span>
+            <span>
+              <span className="text-orange-400">●</span> السرد {formatBytes(storage.narrationBytes)}
+              {storage.narrationBytes > 0 && <button onClick={handleClearNarration} className="mr-2 text-red-400 underline underline-offset-2">مسح</button>}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 overflow-x-auto scrollbar-hide">
+            <span className="shrink-0 text-[9px] font-black text-gray-400">الحد الأقصى للخزنة:</span>
+            {VAULT_SIZE_OPTIONS.map(bytes => (
+              <button
+                key={bytes}
+                onClick={() => handleMaxVault(bytes)}
+                className={`shrink-0 px-3 py-1 rounded-full text-[9px] font-black border transition-all active:scale-90 ${storage.maxVaultBytes === bytes ? 'bg-cyan-500 border-cyan-400 text-black' : 'bg-white/5 border-white/15 text-gray-300'}`}
+              >
+                {bytes ? formatBytes(bytes) : 'بلا حد'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-start gap-2 text-[9px] font-bold text-gray-400">
+            <input type="checkbox" checked={fullSync} onChange={e => handleFullSync(e.target.checked)} className="mt-0.5 accent-cyan-500" />
+            <span>
+              مزامنة الكتالوج كاملاً
+              <span className="block text-gray-600">كل الفيديوهات متاحة للتصفح بدون نت، مقابل استهلاك بيانات أكبر عند كل فتح</span>
+            </span>
+          </label>
+        </section>
+      )}
+
+      {/* TRANSFER */}
+      <section className="mx-2 p-5 rounded-[2rem] bg-neutral-900 border border-white/5 flex flex-col gap-3">
+        <h2 className="text-[12px] font-black text-white italic">نقل المكتبة لهاتف آخر</h2>
+        <label className="flex items-center gap-2 text-[9px] font-bold text-gray-400">
+          <input type="checkbox" checked={includeFiles} onChange={e => setIncludeFiles(e.target.checked)} className="accent-cyan-500" />
+          مع ملفات الفيديو المحملة{storage ? ` (${formatBytes(storage.vaultBytes)})` : ''}
+        </label>
+        <div className="flex gap-2">
+          <button disabled={archiveBusy} onClick={handleExport} className="flex-1 py-2 rounded-xl bg-cyan-500 text-black text-[10px] font-black active:scale-95 disabled:opacity-40">
+            تصدير
+          </button>
+          <button disabled={archiveBusy} onClick={() => importInput.current?.click()} className="flex-1 py-2 rounded-xl bg-white/10 border border-white/15 text-white text-[10px] font-black active:scale-95 disabled:opacity-40">
+            استيراد
+          </button>
+          <input ref={importInput} type="file" accept={ARCHIVE_EXTENSION} onChange={handleImport} className="hidden" />
+        </div>
+        {archiveBusy && <p className="text-[9px] font-bold text-cyan-400 animate-pulse">جاري العمل...</p>}
+        {archiveMessage && <p className="text-[9px] font-bold text-gray-300">{archiveMessage}</p>}
+      </section>
+
+      {/* INTEGRITY */}
+      {flaggedVideos.length > 0 && (
+        <section className="mx-2 p-4 rounded-3xl bg-yellow-500/10 border border-yellow-500/40 flex items-center justify-between gap-3">
+          <p className="text-[10px] font-black text-yellow-400">⚠️ {flaggedVideos.length} فيديوهات تحتاج إعادة تحميل (تالفة أو تم تحديثها)</p>
+          <button onClick={() => flaggedVideos.forEach(redownload)} className="shrink-0 px-3 py-1.5 rounded-xl bg-yellow-500 text-black text-[10px] font-black active:scale-90">
+            إعادة تحميل الكل
+          </button>
+        </section>
+      )}
+
+      {/* DOWNLOAD QUEUE */}
+      {pendingDownloads.length > 0 && (
+        <section className="px-2">
+          <div className="flex items-center gap-2 mb-4 px-2">
+            <div className="w-1.5 h-3.5 bg-purple-500 rounded-full shadow-[0_0_12px_#c084fc]"></div>
+            <h2 className="text-[12px] font-black text-white italic uppercase tracking-wider">طابور التحميل ({pendingDownloads.length})</h2>
+          </div>
+          <div className="flex flex-col gap-3">
+            {pendingDownloads.map(item => {
+              const percent = item.totalBytes ? Math.min(100, (item.bytesDownloaded / item.totalBytes) * 100) : 0;
+              const isRunning = item.status === 'downloading' || item.status === 'queued';
+              return (
+                <div key={item.id} className="p-4 rounded-3xl bg-neutral-900 border border-white/5 flex flex-col gap-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-[11px] font-black text-white line-clamp-1 italic text-right flex-1">{item.title || item.id}</p>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => isRunning ? DownloadManager.pause(item.id) : DownloadManager.resume(item.id)}
+                        className="px-3 py-1.5 rounded-xl bg-white/5 border border-white/15 text-[10px] font-black text-white active:scale-90"
+                      >
+                        {isRunning ? 'إيقاف' : 'استئناف'}
+                      </button>
+                      <button
+                        onClick={() => DownloadManager.cancel(item.id)}
+                        className="px-3 py-1.5 rounded-xl bg-red-600/20 border border-red-600/40 text-[10px] font-black text-red-400 active:scale-90"
+                      >
+                        إلغاء
+                      </button>
+                    </div>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                    <div className={`h-full rounded-full transition-all duration-500 ${item.status === 'error' ? 'bg-red-600' : 'bg-yellow-400 shadow-[0_0_8px_#facc15]'}`} style={{ width: `${percent}%` }} />
+                  </div>
+                  <div className="flex justify-between text-[8px] font-bold text-gray-500">
+                    <span>{STATUS_LABELS[item.status]}</span>
+                    <span>{formatBytes(item.bytesDownloaded)}{item.totalBytes ? ` / ${formatBytes(item.totalBytes)}` : ''}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       {downloadedVideos.length > 0 ? (
         <div className="flex flex-col gap-10">
           
@@ -92,6 +376,7 @@ const OfflinePage: React.FC<OfflinePageProps> = ({
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>
                       </button>
+                      {issues[video.id] && <IssueBadge issue={issues[video.id]} onRedownload={() => redownload(video)} />}
 
                       <div className="absolute bottom-3 right-3 left-3">
                          <p className="text-[9px] font-black text-white line-clamp-2 italic text-right leading-tight">{video.title}</p>
@@ -127,6 +412,7 @@ const OfflinePage: React.FC<OfflinePageProps> = ({
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>
                       </button>
+                      {issues[video.id] && <IssueBadge issue={issues[video.id]} onRedownload={() => redownload(video)} />}
 
                       <div className="absolute bottom-3 right-3 left-3">
                          <p className="text-[11px] font-black text-white line-clamp-1 italic text-right leading-tight">{video.title}</p>
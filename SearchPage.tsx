@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Video, UserInteractions } from './types';
+import { buildSearchIndex, suggestQueries } from './arabicSearch';
+import { SearchState, SearchSort, SearchTypeFilter, DEFAULT_SEARCH_STATE, hasActiveFilters, runSearch, writeSearchStateToUrl } from './searchFilters';
+import { HighlightedText, formatBigNumber, getNeonColor } from './MainContent';
+import { getVideoStats } from './videoCounters';
+
+interface SearchPageProps {
+  allVideos: Video[];
+  interactions: UserInteractions;
+  categories: string[];
+  initialState: SearchState;
+  onPlayShort: (v: Video, list: Video[]) => void;
+  onPlayLong: (v: Video, list: Video[]) => void;
+  onBack: () => void;
+  onStateChange?: (state: SearchState) => void; // Lets the app restore the same search when navigating back
+}
+
+const TYPE_OPTIONS: { value: SearchTypeFilter, label: string }[] = [
+  { value: 'all', label: 'الكل' },
+  { value: 'shorts', label: 'شورتس' },
+  { value: 'long', label: 'طويلة' }
+];
+
+const SORT_OPTIONS: { value: SearchSort, label: string }[] = [
+  { value: 'relevance', label: 'الأقرب' },
+  { value: 'newest', label: 'الأحدث' },
+  { value: 'views', label: 'الأكثر مشاهدة' },
+  { value: 'likes', label: 'الأكثر إعجاباً' }
+];
+
+// Rows render a <video preload="metadata"> when there is no poster: never the whole catalog at once
+const RECENT_LIMIT = 8;         // Idle page (no query, no filters): just the newest
+const RESULTS_PAGE_SIZE = 30;   // More on demand
+
+const Chip: React.FC<{ active: boolean, onClick: () => void, children: React.ReactNode, tone?: string }> = ({ active, onClick, children, tone = 'red' }) => (
+  <button
+    onClick={onClick}
+    className={`shrink-0 px-3.5 py-1.5 rounded-full text-[10px] font-black border transition-all active:scale-90 ${
+      active
+        ? tone === 'yellow'
+          ? 'bg-yellow-500 border-yellow-400 text-black shadow-[0_0_12px_rgba(234,179,8,0.6)]'
+          : 'bg-red-600 border-red-500 text-white shadow-[0_0_12px_rgba(220,38,38,0.6)]'
+        : 'bg-white/5 border-white/15 text-gray-300'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const SearchPage: React.FC<SearchPageProps> = ({ allVideos, interactions, categories, initialState, onPlayShort, onPlayLong, onBack, onStateChange }) => {
+  const [state, setState] = useState<SearchState>(initialState);
+
+  // Keep the link in sync so results can be shared and survive a reload; clean it up when leaving.
+  useEffect(() => {
+    writeSearchStateToUrl(state);
+    onStateChange?.(state);
+  }, [state]);
+  useEffect(() => () => writeSearchStateToUrl(null), []);
+
+  const update = (patch: Partial<SearchState>) => setState(prev => ({ ...prev, ...patch }));
+
+  const playable = useMemo(() => allVideos.filter(v => v && v.video_url), [allVideos]);
+  const searchIndex = useMemo(() => buildSearchIndex(playable), [playable]);
+
+  const results = useMemo(
+    () => runSearch(searchIndex, playable, state, interactions),
+    [searchIndex, playable, state, interactions]
+  );
+
+  const suggestions = useMemo(
+    () => suggestQueries(searchIndex, state.query, 5).filter(s => s.trim() !== state.query.trim()),
+    [searchIndex, state.query]
+  );
+
+  const isIdle = !state.query.trim() && !hasActiveFilters(state);
+
+  // A new search starts from the first page again
+  const [visibleCount, setVisibleCount] = useState(RESULTS_PAGE_SIZE);
+  useEffect(() => setVisibleCount(RESULTS_PAGE_SIZE), [state]);
+  const visibleResults = results.slice(0, isIdle ? RECENT_LIMIT : visibleCount);
+
+  const handlePlay = (video: Video) => {
+    if (video.video_type === 'Shorts') onPlayShort(video, results.filter(v => v.video_type === 'Shorts'));
+    else onPlayLong(video, results.filter(v => v.video_type === 'Long Video'));
+  };
+
+  return (
+    <div className="flex flex-col gap-5 pb-32 animate-in fade-in slide-in-from-bottom-4 duration-500" dir="rtl">
+      <div className="sticky top-16 z-30 bg-black/90 backdrop-blur-xl px-3 pt-4 pb-3 flex flex-col gap-3 border-b border-white/5">
+        <div className="flex items-center gap-3">
+          <input
+            autoFocus={!state.query}
+            type="text"
+            placeholder="ابحث في أرشيف الحديقة..."
+            value={state.query}
+            onChange={(e) => update({ query: e.target.value })}
+            className="flex-1 bg-white/5 border-2 border-white/10 rounded-2xl py-3 px-5 text-white text-sm outline-none focus:border-red-600 transition-all font-black text-right"
+          />
+          <button onClick={onBack} className="p-2.5 bg-black/40 border border-white/20 rounded-full text-white active:scale-75 transition-transform">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M9 5l7 7-7 7"/></svg>
+          </button>
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+            {suggestions.map(s => (
+              <button key={s} onClick={() => update({ query: s })} className="shrink-0 text-[10px] font-bold text-gray-400 underline decoration-red-600/60 underline-offset-4">
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+          {TYPE_OPTIONS.map(o => (
+            <Chip key={o.value} active={state.type === o.value} onClick={() => update({ type: o.value })}>{o.label}</Chip>
+          ))}
+          <span className="w-px bg-white/10 shrink-0" />
+          <Chip active={state.trendingOnly} onClick={() => update({ trendingOnly: !state.trendingOnly })}>🔥 ترند</Chip>
+          <Chip active={state.downloadedOnly} onClick={() => update({ downloadedOnly: !state.downloadedOnly })}>📥 المحملة</Chip>
+          <Chip active={state.unwatchedOnly} onClick={() => update({ unwatchedOnly: !state.unwatchedOnly })}>👁️ لم تُشاهد</Chip>
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+          <Chip tone="yellow" active={!state.category} onClick={() => update({ category: '' })}>كل الأقسام</Chip>
+          {categories.map(cat => (
+            <Chip key={cat} tone="yellow" active={state.category === cat} onClick={() => update({ category: state.category === cat ? '' : cat })}>{cat}</Chip>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+            {SORT_OPTIONS.map(o => (
+              <button
+                key={o.value}
+                onClick={() => update({ sort: o.value })}
+                className={`shrink-0 text-[10px] font-black px-2 py-1 rounded-md transition-colors ${state.sort === o.value ? 'text-red-500 bg-red-600/10' : 'text-gray-500'}`}
+              >
+                {o.label}
+              </button>
+            ))}
+          </div>
+          {(state.query || hasActiveFilters(state) || state.sort !== 'relevance') && (
+            <button onClick={() => setState(DEFAULT_SEARCH_STATE)} className="shrink-0 text-[9px] font-black text-gray-500 active:scale-90">مسح</button>
+          )}
+        </div>
+      </div>
+
+      {(!isIdle || results.length > 0) && (
+        <p className="px-4 text-[9px] text-gray-500 font-bold">{isIdle ? 'أحدث الإضافات' : `${results.length} نتيجة`}</p>
+      )}
+
+      {visibleResults.length > 0 ? (
+        <div className="flex flex-col gap-4 px-3">
+          {visibleResults.map(v => {
+            const stats = getVideoStats(v);
+            return (
+              <div key={v.id} onClick={() => handlePlay(v)} className={`flex gap-4 p-3 bg-white/5 rounded-3xl border-2 active:scale-95 transition-all shadow-xl ${getNeonColor(v.id)}`}>
+                <div className={`bg-black rounded-2xl overflow-hidden shrink-0 border-2 border-white/10 relative ${v.video_type === 'Shorts' ? 'w-16 h-28' : 'w-32 h-20'}`}>
+                  {v.poster_url ? (
+                    <img src={v.poster_url} alt="" loading="lazy" className="w-full h-full object-cover" />
+                  ) : (
+                    <video src={v.video_url} crossOrigin="anonymous" preload="metadata" muted className="w-full h-full object-cover" onError={(e) => e.currentTarget.style.display = 'none'} />
+                  )}
+                  {interactions.downloadedIds.includes(v.id) && (
+                    <span className="absolute bottom-1 left-1 text-[10px]">📥</span>
+                  )}
+                </div>
+                <div className="flex flex-col justify-center flex-1 min-w-0 gap-1">
+                  <h3 className="text-sm font-black text-white italic line-clamp-2 text-right">
+                    <HighlightedText text={v.title} query={state.query} />
+                  </h3>
+                  {state.query.trim() && v.description && (
+                    <p className="text-[10px] text-gray-400 font-bold line-clamp-1 text-right">
+                      <HighlightedText text={v.description} query={state.query} snippetRadius={40} />
+                    </p>
+                  )}
+                  <div className="flex items-center gap-2 text-[9px] font-black text-gray-500 mt-1">
+                    <span className="text-red-500 bg-red-600/10 px-2 py-0.5 rounded-md border border-red-600/20">{v.category}</span>
+                    <span>👁️ {formatBigNumber(stats.views)}</span>
+                    <span>❤️ {formatBigNumber(stats.likes)}</span>
+                    {v.is_trending && <span>🔥</span>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {!isIdle && visibleResults.length < results.length && (
+            <button
+              onClick={() => setVisibleCount(c => c + RESULTS_PAGE_SIZE)}
+              className="py-3 rounded-2xl bg-white/5 border border-white/10 text-[10px] font-black text-gray-300 active:scale-95"
+            >
+              عرض المزيد ({results.length - visibleResults.length})
+            </button>
+          )}
+        </div>
+      ) : !isIdle && (
+        <div className="flex flex-col items-center justify-center py-24 opacity-30 gap-5 text-center">
+          <svg className="w-20 h-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"/></svg>
+          <p className="font-black italic text-lg">لا توجد نتائج لهذا الكابوس..</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPage;
@@ -1,8 +1,17 @@
-import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Video, UserInteractions } from './types';
-import { getDeterministicStats, formatBigNumber, LOGO_URL, formatVideoSource, NeonTrendBadge } from './MainContent';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Video, UserInteractions, CaptionSize } from './types';
+import { formatBigNumber, LOGO_URL, formatVideoSource, NeonTrendBadge, ResumePrompt } from './MainContent';
 import { playNarrative, stopCurrentNarrative } from './elevenLabsManager';
-import { getVideoSrcFromCache, bufferVideoChunk } from './smartCache';
+import { storedNarrationOf } from './narrationCache';
+import { useCaptionSettings, useSyncedCaption, cycleCaptionSettings } from './narrationCaptions';
+import { useMixerChannel } from './audioMixer';
+import { AudioMixControls } from './AudioMixControls';
+import { getVideoSrcFromCache } from './smartCache';
+import { prefetchVideo } from './prefetchPolicy';
+import { FeedRandom, shuffleWith } from './seededRandom';
+import { getVideoStats } from './videoCounters';
+import { shareVideo, generateShareCard, clearShareCards } from './shareManager';
+import { findWatchEntry, getResumePosition, whenMetadataReady } from './playbackResume';
 
 interface ShortsPlayerOverlayProps {
   initialVideo: Video;
@@ -13,7 +22,7 @@ interface ShortsPlayerOverlayProps {
   onDislike: (id: string) => void;
   onCategoryClick: (cat: string) => void;
   onSave: (id: string) => void;
-  onProgress: (id: string, progress: number) => void;
+  onProgress: (id: string, progress: number, position: number) => void;
   onDownload: (video: Video) => void;
   isGlobalDownloading: boolean;
 }
@@ -70,63 +79,35 @@ const NeonLionIcon: React.FC<{ colorClass: string, isDownloading: boolean }> = (
   </svg>
 );
 
-const DynamicCaptions: React.FC<{ text: string, isActive: boolean }> = ({ text, isActive }) => {
-  const [currentChunk, setCurrentChunk] = useState('');
-  const [isVisible, setIsVisible] = useState(false);
-  const chunkIndex = useRef(0);
-  
-  const chunks = useMemo(() => {
-    if (!text) return [];
-    const words = text.split(/\s+/);
-    const result = [];
-    for (let i = 0; i < words.length; i += 4) {
-      result.push(words.slice(i, i + 4).join(' '));
-    }
-    return result;
-  }, [text]);
+const CAPTION_TEXT_SIZES: Record<CaptionSize, string> = {
+  small: 'text-sm md:text-base',
+  medium: 'text-lg md:text-xl',
+  large: 'text-2xl md:text-3xl'
+};
 
-  useEffect(() => {
-    if (!isActive || chunks.length === 0) {
-      setIsVisible(false);
-      return;
-    }
+const CAPTION_SIZE_LABELS: Record<CaptionSize, string> = { small: 'S', medium: 'M', large: 'L' };
 
-    // Don't reset if we are already showing captions for this text
-    if (chunkIndex.current === 0 && !isVisible) {
-        // Start sequence
-        const showNextChunk = () => {
-            if (chunkIndex.current >= chunks.length) {
-              setIsVisible(false);
-              return;
-            }
-      
-            setCurrentChunk(chunks[chunkIndex.current]);
-            setIsVisible(true);
-      
-            setTimeout(() => {
-              setIsVisible(false);
-              setTimeout(() => {
-                chunkIndex.current++;
-                showNextChunk();
-              }, 300); 
-            }, 2500); 
-          };
-      
-          showNextChunk();
-    }
-  }, [chunks, isActive]);
+// Follows the narration's own timing (narrationCaptions.ts) instead of a fixed timer
+// narratorOn: the narration toggle; in "auto" the captions show only while it is on, as before
+const DynamicCaptions: React.FC<{ text: string, isActive: boolean, narratorOn: boolean, followNarration: boolean }> = ({ text, isActive, narratorOn, followNarration }) => {
+  const settings = useCaptionSettings();
+  const visible = settings.enabled && (narratorOn || !settings.followNarration);
+  const caption = useSyncedCaption(text, isActive && visible, followNarration);
+  // Keep the last phrase on screen while it fades out
+  const [shown, setShown] = useState('');
+  useEffect(() => { if (caption) setShown(caption); }, [caption]);
 
-  if (chunks.length === 0) return null;
+  if (!text || !visible) return null;
 
   return (
     <div className="absolute z-[100] w-full max-w-[80%] pointer-events-none flex flex-col bottom-48 right-4 text-right items-end">
       <div 
-        className={`transition-all duration-500 ease-in-out transform ${isVisible ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-4 scale-95'}`}
+        className={`transition-all duration-300 ease-in-out transform ${caption ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-4 scale-95'}`}
       >
         <div className="bg-black/60 backdrop-blur-md border-2 border-cyan-400 px-6 py-3 rounded-2xl shadow-[0_0_20px_#22d3ee] flex items-center gap-3">
              <div className="w-2 h-2 bg-cyan-400 rounded-full animate-pulse shadow-[0_0_10px_#22d3ee]"></div>
-             <span className="text-lg md:text-xl font-black text-white italic drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] leading-relaxed tracking-wide">
-                {currentChunk}
+             <span className={`${CAPTION_TEXT_SIZES[settings.size]} font-black text-white italic drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] leading-relaxed tracking-wide`}>
+                {shown}
              </span>
         </div>
       </div>
@@ -143,7 +124,7 @@ const ShortsVideoItem: React.FC<{
     isNarrativeOn: boolean;
     onVideoRef: (el: HTMLVideoElement | null) => void;
     onNext: () => void;
-    onProgress: (id: string, p: number) => void;
+    onProgress: (id: string, p: number, position: number) => void;
     onToggleNarrative: (e: React.MouseEvent) => void;
     onLike: (id: string) => void;
     onDislike: (id: string) => void;
@@ -160,7 +141,13 @@ const ShortsVideoItem: React.FC<{
     // FIX: Initialize with valid source string immediately
     const [activeSrc, setActiveSrc] = useState<string>(formatVideoSource(video) || ''); 
     const [isVideoPlaying, setIsVideoPlaying] = useState(false); // Controls visual visibility of video vs poster
-    const stats = useMemo(() => getDeterministicStats(video.video_url), [video.video_url]);
+    const [shareNote, setShareNote] = useState<string | null>(null);
+    const captions = useCaptionSettings();
+    const [showMixer, setShowMixer] = useState(false);
+    // Own ref for the mixer: the parent's ref callback changes on every render
+    const videoElRef = useRef<HTMLVideoElement | null>(null);
+    useMixerChannel(videoElRef, 'video');
+    const stats = getVideoStats(video);
     
     // Derived states
     const isLiked = interactions.likedIds.includes(video.id);
@@ -183,8 +170,8 @@ const ShortsVideoItem: React.FC<{
                     setActiveSrc(cachedBlob);
                 } else {
                     // Do not block. Set source is already handled by initial state.
-                    // Just trigger background buffer.
-                    bufferVideoChunk(originalSrc).catch(() => {});
+                    // Just trigger background buffer (if the network policy allows).
+                    prefetchVideo(originalSrc).catch(() => {});
                 }
             }
         };
@@ -198,6 +185,20 @@ const ShortsVideoItem: React.FC<{
         };
     }, [video.video_url]);
 
+    // Prepare the share card while the video plays, so the share sheet opens instantly
+    useEffect(() => {
+        if (isActive) generateShareCard(video);
+    }, [isActive, video.id]);
+
+    const handleShare = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const outcome = await shareVideo(video);
+        if (outcome === 'copied') setShareNote('تم نسخ الرابط 🔗');
+        else if (outcome === 'failed') setShareNote('تعذرت المشاركة');
+        else return;
+        setTimeout(() => setShareNote(null), 2500);
+    };
+
     // Handle pausing narrative if video buffers
     const handleWaiting = () => {
         setIsVideoPlaying(false);
@@ -236,7 +237,7 @@ const ShortsVideoItem: React.FC<{
 
                 {/* VIDEO LAYER */}
                 <video 
-                    ref={onVideoRef}
+                    ref={el => { videoElRef.current = el; onVideoRef(el); }}
                     src={activeSrc} 
                     className="h-full w-full object-cover contrast-110 saturate-125 landscape:object-contain relative z-0"
                     playsInline 
@@ -257,7 +258,7 @@ const ShortsVideoItem: React.FC<{
                     onEnded={() => { if(isActive) onNext(); }} 
                     onTimeUpdate={(e) => { 
                         if(isActive) {
-                            onProgress(video.id, e.currentTarget.currentTime / e.currentTarget.duration);
+                            onProgress(video.id, e.currentTarget.currentTime / e.currentTarget.duration, e.currentTarget.currentTime);
                             // Ensure poster is hidden if time is progressing
                             if (e.currentTarget.currentTime > 0.1) setIsVideoPlaying(true);
                         }
@@ -284,12 +285,21 @@ const ShortsVideoItem: React.FC<{
                 <div className="absolute inset-0 bg-gradient-to-b from-black/10 via-transparent to-black/60 pointer-events-none z-10" />
                 <div className="z-20 absolute top-2 left-2"><NeonTrendBadge is_trending={video.is_trending} /></div>
                 
-                {/* Only show Narrative if video is actively playing (not buffered/paused) */}
-                {isNarrativeOn && (
-                   <DynamicCaptions text={video.description} isActive={isActive && isVideoPlaying} />
-                )}
+                {/* Only show captions while the video is actively playing (not buffered/paused) */}
+                <DynamicCaptions
+                    text={video.description || video.title}
+                    isActive={isActive && isVideoPlaying}
+                    narratorOn={isNarrativeOn}
+                    followNarration={isNarrativeOn && !!video.read_narrative}
+                />
             </div>
 
+            {shareNote && (
+                <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[90] bg-emerald-600 text-white px-5 py-2 rounded-full font-black text-xs shadow-[0_0_20px_#10b981] animate-in fade-in zoom-in duration-300">
+                    {shareNote}
+                </div>
+            )}
+
             {/* --- NEW DYNAMIC ROAMING OVERLAY BUTTON --- */}
             {video.overlay_text && video.overlay_url && (
                 <RoamingNeonButton text={video.overlay_text} url={video.overlay_url} />
@@ -319,6 +329,26 @@ const ShortsVideoItem: React.FC<{
                     <span className="text-[9px] font-black text-white drop-shadow-lg italic">{isNarrativeOn ? 'ON' : 'OFF'}</span>
                 </div>
 
+                <div className="flex flex-col items-center gap-1">
+                    <button onClick={(e) => { e.stopPropagation(); cycleCaptionSettings(); }} className="group">
+                        <div className={`w-[52px] h-[52px] rounded-full border-2 flex items-center justify-center font-black text-xs transition-all duration-300 ${captions.enabled ? 'bg-cyan-600/30 border-cyan-400 text-white shadow-[0_0_15px_#22d3ee]' : 'bg-black/40 border-white/20 text-gray-400'}`}>
+                           CC
+                        </div>
+                    </button>
+                    <span className="text-[9px] font-black text-white drop-shadow-lg italic">{!captions.enabled ? 'OFF' : captions.followNarration ? 'AUTO' : CAPTION_SIZE_LABELS[captions.size]}</span>
+                </div>
+
+                <div className="relative flex flex-col items-center gap-1">
+                    <button onClick={(e) => { e.stopPropagation(); setShowMixer(p => !p); }} className="group">
+                        <div className={`w-[52px] h-[52px] rounded-full border-2 flex items-center justify-center text-lg transition-all duration-300 ${showMixer ? 'bg-red-600/30 border-red-400 shadow-[0_0_15px_#ef4444]' : 'bg-black/40 border-white/20'}`}>
+                           🎚️
+                        </div>
+                    </button>
+                    {showMixer && (
+                        <AudioMixControls className="absolute left-16 top-0 w-64 bg-black/80 backdrop-blur-xl border border-white/15 rounded-2xl p-4 shadow-2xl" />
+                    )}
+                </div>
+
                 <div className="flex flex-col items-center gap-1">
                   <button onClick={(e) => { e.stopPropagation(); onLike(video.id); }} className="group">
                     <div className={`p-3.5 rounded-full border-2 transition-all duration-300 ${isLiked ? 'bg-red-600 border-red-400 text-white shadow-[0_0_20px_#ef4444]' : 'bg-black/40 border-white/20 text-white backdrop-blur-xl hover:border-red-600/50'}`}>
@@ -351,6 +381,15 @@ const ShortsVideoItem: React.FC<{
                      <svg className="w-6 h-6" fill={isSaved ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"/></svg>
                    </div>
                 </button>
+
+                <div className="flex flex-col items-center gap-1">
+                  <button onClick={handleShare} className="group">
+                    <div className="p-3.5 rounded-full border-2 transition-all duration-300 bg-black/40 border-white/20 text-white backdrop-blur-xl hover:border-emerald-400/60 active:bg-emerald-600 active:shadow-[0_0_20px_#10b981]">
+                      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"/></svg>
+                    </div>
+                  </button>
+                  <span className="text-[9px] font-black text-white drop-shadow-lg italic">شارك</span>
+                </div>
             </div>
 
             <div className="absolute bottom-24 right-4 z-40 max-w-[75%]">
@@ -392,11 +431,10 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
   const [displayList, setDisplayList] = useState<Video[]>([]);
   
   useEffect(() => {
-      const otherVideos = videoList.filter(v => v.id !== initialVideo.id);
-      for (let i = otherVideos.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [otherVideos[i], otherVideos[j]] = [otherVideos[j], otherVideos[i]];
-      }
+      const otherVideos = shuffleWith(
+          videoList.filter(v => v.id !== initialVideo.id),
+          FeedRandom.createRng(`shorts:${initialVideo.id}`)
+      );
       setDisplayList([initialVideo, ...otherVideos]);
   }, [initialVideo.id, videoList]);
 
@@ -405,11 +443,16 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
   const videoRefs = useRef<{ [key: string]: HTMLVideoElement | null }>({});
   
   const [isNarrativeOn, setIsNarrativeOn] = useState(true);
+  const [resumeOffer, setResumeOffer] = useState<{ index: number, position: number } | null>(null);
+  // Read at the moment a video becomes active; progress updates must not re-run the play effect
+  const interactionsRef = useRef(interactions);
+  interactionsRef.current = interactions;
 
   // Stop narrative on unmount
   useEffect(() => {
       return () => {
           stopCurrentNarrative();
+          clearShareCards();
       };
   }, []);
 
@@ -424,7 +467,7 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
       const currentVideo = displayList[currentIndex];
       if (isNarrativeOn && currentVideo && currentVideo.read_narrative) {
           const textToRead = currentVideo.description || currentVideo.title;
-          if (textToRead) playNarrative(textToRead);
+          if (textToRead) playNarrative(textToRead, storedNarrationOf(currentVideo));
       }
   }, [currentIndex, displayList, isNarrativeOn]);
 
@@ -439,7 +482,7 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
            const currentVideo = displayList[currentIndex];
            if (currentVideo && currentVideo.read_narrative) {
                const textToRead = currentVideo.description || currentVideo.title;
-               if (textToRead) playNarrative(textToRead);
+               if (textToRead) playNarrative(textToRead, storedNarrationOf(currentVideo));
            }
       }
   };
@@ -451,9 +494,7 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
             if (idx < displayList.length) {
                 const video = displayList[idx];
                 const url = formatVideoSource(video);
-                try {
-                    bufferVideoChunk(url);
-                } catch (e) {}
+                prefetchVideo(url, video.poster_url).catch(() => {});
             }
         }
     };
@@ -462,10 +503,10 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
 
   useEffect(() => {
       if (currentIndex >= displayList.length - 2 && displayList.length > 0) {
-          const moreVideos = [...videoList].sort(() => 0.5 - Math.random());
+          const moreVideos = shuffleWith(videoList, FeedRandom.createRng(`shorts-recycle:${initialVideo.id}:${displayList.length}`));
           setDisplayList(prev => [...prev, ...moreVideos]);
       }
-  }, [currentIndex, displayList.length, videoList]);
+  }, [currentIndex, displayList.length, videoList, initialVideo.id]);
 
   const handleNextVideo = useCallback(() => {
       const nextIdx = currentIndex + 1;
@@ -476,15 +517,30 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
       }
   }, [currentIndex]);
 
+  // The list is filled in an effect, so the first video's refs only exist after it arrives
+  const hasList = displayList.length > 0;
+
   useEffect(() => {
     // Pause all previous videos to prevent overlap
     (Object.values(videoRefs.current) as (HTMLVideoElement | null)[]).forEach(v => {
         if(v) v.pause();
     });
 
+    setResumeOffer(null);
+    let cancelResume = () => {};
     const mainVid = videoRefs.current[`main-${currentIndex}`];
+    const activeVideo = displayList[currentIndex];
     if (mainVid) {
       mainVid.currentTime = 0; 
+      // Restore the saved position (metadata may still be loading for legacy entries without seconds)
+      const entry = activeVideo ? findWatchEntry(interactionsRef.current.watchHistory, activeVideo.id) : undefined;
+      const applyResume = () => {
+        const at = getResumePosition(entry, mainVid.duration);
+        if (at === null) return;
+        mainVid.currentTime = at;
+        setResumeOffer({ index: currentIndex, position: at });
+      };
+      if (entry) cancelResume = whenMetadataReady(mainVid, applyResume);
       const attemptPlay = async () => {
           try {
               await mainVid.play();
@@ -498,7 +554,8 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
       };
       attemptPlay();
     }
-  }, [currentIndex]);
+    return cancelResume;
+  }, [currentIndex, hasList]);
 
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     const height = e.currentTarget.clientHeight;
@@ -522,6 +579,20 @@ const ShortsPlayerOverlay: React.FC<ShortsPlayerOverlayProps> = ({
         </button>
       </div>
 
+      {resumeOffer && resumeOffer.index === currentIndex && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[600]">
+          <ResumePrompt 
+            position={resumeOffer.position}
+            onResume={() => setResumeOffer(null)}
+            onStartOver={() => {
+              const vid = videoRefs.current[`main-${currentIndex}`];
+              if (vid) vid.currentTime = 0;
+              setResumeOffer(null);
+            }}
+          />
+        </div>
+      )}
+
       <div ref={containerRef} onScroll={handleScroll} className="flex-grow overflow-y-scroll snap-y snap-mandatory scrollbar-hide h-full w-full">
         {displayList.map((video, idx) => {
           if (Math.abs(idx - currentIndex) > 2) {
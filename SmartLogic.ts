@@ -4,6 +4,8 @@ import { ensureAuth, db } from "./firebaseConfig";
 import { Video, UserProfile, UserInteractions } from "./types";
 import { doc, getDoc, setDoc } from "firebase/firestore";
 import { SYSTEM_CONFIG } from "./TechSpecs";
+import { RankingWeights, DEFAULT_RANKING_WEIGHTS, buildRankingContext, rankVideos, fetchRankingWeights } from "./feedRanking";
+import { FeedRandom, shuffleWith } from "./seededRandom";
 
 export interface ChatMessage {
   role: 'user' | 'model';
@@ -23,6 +25,7 @@ export interface AIResponse {
 
 class SmartBrainLogic {
   private localInterests: string[] = [];
+  private rankingWeights: RankingWeights = { ...DEFAULT_RANKING_WEIGHTS };
 
   constructor() {
     try {
@@ -33,6 +36,17 @@ class SmartBrainLogic {
     } catch (e) {
       console.warn("Failed to load local interests", e);
     }
+    this.refreshRankingWeights();
+  }
+
+  // Pulls the admin-tuned scorer weights (settings/feed_ranking). Defaults stay active until it resolves.
+  public async refreshRankingWeights(): Promise<RankingWeights> {
+    this.rankingWeights = await fetchRankingWeights();
+    return this.rankingWeights;
+  }
+
+  public getRankingWeights(): RankingWeights {
+    return this.rankingWeights;
   }
 
   // --- CORE ALGORITHM: YOUTUBE STYLE FEED GENERATION ---
@@ -54,42 +68,27 @@ class SmartBrainLogic {
     const watchedPool = allVideos.filter(v => watchedIds.has(v.id) && !dislikedIds.has(v.id));
 
     let finalFeed: Video[] = [];
+    // Seeded per user/session so the same feed can be reproduced (see seededRandom.ts)
+    const random = FeedRandom.createRng('feed');
 
     // 3. SCENARIO A: User has UNWATCHED videos (Standard Mode)
     // If library is large enough (>20), we strictly stick to unwatched content to avoid repetition.
     if (unwatchedPool.length > 0) {
-        // Score videos based on interests
-        const scored = unwatchedPool.map(video => {
-            let score = Math.random() * 10; // Base randomness
-            
-            // Interest Boost
-            if (this.localInterests.includes(video.category)) {
-                score += 50; // Heavy weight for interests
-            }
-            
-            // Trending Boost
-            if (video.is_trending) {
-                score += 20;
-            }
-
-            return { video, score };
-        });
-
-        // Sort by score descending
-        scored.sort((a, b) => b.score - a.score);
-        finalFeed = scored.map(s => s.video);
+        // Score videos through the ranking pipeline (interest, freshness, trending, similarity, completion)
+        const context = buildRankingContext(allVideos, interactions, this.localInterests);
+        finalFeed = rankVideos(unwatchedPool, context, this.rankingWeights, undefined, random);
     } 
     // 4. SCENARIO B: User watched EVERYTHING (Recycle Mode)
     else {
         // If all 1500+ videos are watched, we recycle.
         // We shuffle the watched pool to give a "fresh" feel even if repeated.
-        finalFeed = [...watchedPool].sort(() => 0.5 - Math.random());
+        finalFeed = shuffleWith(watchedPool, random);
     }
 
     // 5. SAFETY NET: If feed is STILL empty (e.g. user disliked everything), force recycle ALL
     if (finalFeed.length === 0 && allVideos.length > 0) {
         // Fallback: Show all videos shuffled, ignoring dislike filters to prevent empty app state
-        finalFeed = [...allVideos].sort(() => 0.5 - Math.random());
+        finalFeed = shuffleWith(allVideos, random);
     }
 
     // 6. Deduplication check (Strict enforcement)
@@ -33,7 +33,10 @@ export const SYSTEM_CONFIG = {
     publicUrl: "https://pub-82d22c4b0b8b4b1e8a32d6366b7546c8.r2.dev", // Public access URL
     accountId: "82d22c4b0b8b4b1e8a32d6366b7546c8", // Extracted from public URL subdomain
     workerName: "bold-king-9a8e",
-    notes: "Uploads go to Worker (PUT). Playback comes from Public R2 URL."
+    notes: "Uploads go to Worker (PUT). Playback comes from Public R2 URL.",
+    // Narration (TTS) proxy: holds the ElevenLabs keys as a secret (workers/narrationProxy.ts)
+    narrationUrl: "https://rooh-narration.roohr4046.workers.dev",
+    narrationWorkerName: "rooh-narration"
   },
 
   gemini: {
@@ -1,7 +1,8 @@
 
 import React, { useMemo } from 'react';
 import { Video } from './types';
-import { getDeterministicStats, formatBigNumber } from './MainContent';
+import { formatBigNumber } from './MainContent';
+import { getVideoStats } from './videoCounters';
 
 interface TrendPageProps {
   onPlayShort: (v: Video, list: Video[]) => void;
@@ -34,7 +35,7 @@ const TrendPage: React.FC<TrendPageProps> = ({ onPlayShort, onPlayLong, excluded
         <div className="grid grid-cols-2 gap-4 px-2">
             {trendVideos.map((video, idx) => {
             if (!video || !video.video_url) return null;
-            const stats = getDeterministicStats(video.video_url);
+            const stats = getVideoStats(video);
 
             return (
                 <div 
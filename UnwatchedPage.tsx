@@ -1,9 +1,10 @@
 
 import React, { useRef, useEffect, useMemo } from 'react';
-import { Video } from './types';
+import { Video, WatchHistoryEntry } from './types';
+import { getUnfinishedEntries, formatPlaybackTime } from './playbackResume';
 
 interface UnwatchedPageProps {
-  watchHistory: { id: string, progress: number }[];
+  watchHistory: WatchHistoryEntry[];
   allVideos: Video[];
   onPlayShort: (v: Video, list: Video[]) => void;
   onPlayLong: (v: Video) => void;
@@ -40,16 +41,16 @@ const LiveThumbnail: React.FC<{ url: string, isShort: boolean, progress: number
 
 const UnwatchedPage: React.FC<UnwatchedPageProps> = ({ watchHistory, allVideos, onPlayShort, onPlayLong }) => {
   const unwatchedData = useMemo(() => {
-    const uniqueMap = new Map();
-    watchHistory
-      .filter(h => h.progress > 0.05 && h.progress < 0.95)
-      .forEach(h => {
-        const video = allVideos.find(v => (v.id === h.id || v.video_url === h.id));
-        if (video) {
-          uniqueMap.set(video.id || video.video_url, { video, progress: h.progress });
-        }
-      });
-    return Array.from(uniqueMap.values()).reverse();
+    // Most recently watched first (updatedAt), one card per video
+    const uniqueMap = new Map<string, { video: Video, progress: number, position?: number }>();
+    getUnfinishedEntries(watchHistory).forEach(h => {
+      const video = allVideos.find(v => (v.id === h.id || v.video_url === h.id));
+      const key = video ? (video.id || video.video_url) : '';
+      if (video && !uniqueMap.has(key)) {
+        uniqueMap.set(key, { video, progress: h.progress, position: h.position });
+      }
+    });
+    return Array.from(uniqueMap.values());
   }, [watchHistory, allVideos]);
 
   if (unwatchedData.length === 0) {
@@ -78,7 +79,7 @@ const UnwatchedPage: React.FC<UnwatchedPageProps> = ({ watchHistory, allVideos,
       </div>
 
       <div className="grid grid-cols-2 gap-4">
-        {unwatchedData.map(({ video, progress }) => (
+        {unwatchedData.map(({ video, progress, position }) => (
           video && (
             <div 
               key={video.id || video.video_url}
@@ -88,7 +89,7 @@ const UnwatchedPage: React.FC<UnwatchedPageProps> = ({ watchHistory, allVideos,
               <div className={`relative rounded-3xl overflow-hidden border border-white/10 shadow-xl ${video.type === 'short' ? 'aspect-[9/16]' : 'aspect-video'}`}>
                 <LiveThumbnail url={video.video_url} isShort={video.type === 'short'} progress={progress} />
                 <div className="absolute top-3 left-3 bg-black/60 backdrop-blur-md px-2 py-0.5 rounded-full text-[8px] text-white font-black border border-white/10 z-20">
-                  {Math.round(progress * 100)}%
+                  {position ? formatPlaybackTime(position) : `${Math.round(progress * 100)}%`}
                 </div>
               </div>
               <p className="text-[11px] font-bold line-clamp-1 px-2">{video.title}</p>
@@ -0,0 +1,266 @@
+import { Video } from './types';
+
+// -----------------------------------------------------------------------------
+// ARABIC-AWARE SEARCH INDEX
+// -----------------------------------------------------------------------------
+// توحيد الحروف (أ/إ/آ -> ا، ة -> ه، ى -> ي)، حذف التشكيل والتطويل،
+// وتجذيع خفيف (حذف "ال" و"و" والنهايات الشائعة) قبل الفهرسة والبحث.
+// النتائج مرتبة حسب وزن الحقل: العنوان > الوسوم > القسم > الوصف.
+// -----------------------------------------------------------------------------
+
+export type SearchField = 'title' | 'tags' | 'category' | 'description';
+
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  tags: 3,
+  category: 2,
+  description: 1
+};
+
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/;
+const TATWEEL = '\u0640';
+const CHAR_MAP: Record<string, string> = {
+  'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا',
+  'ة': 'ه',
+  'ى': 'ي', 'ئ': 'ي',
+  'ؤ': 'و',
+  '٠': '0', '١': '1', '٢': '2', '٣': '3', '٤': '4', '٥': '5', '٦': '6', '٧': '7', '٨': '8', '٩': '9'
+};
+
+// Normalizes while remembering where every output char came from, so matches can be highlighted in the original text.
+export const normalizeWithMap = (text: string): { normalized: string, map: number[] } => {
+  let normalized = '';
+  const map: number[] = [];
+  const source = (text || '').toLowerCase();
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === TATWEEL || DIACRITICS.test(ch)) continue;
+    const mapped = CHAR_MAP[ch] ?? ch;
+    normalized += mapped;
+    map.push(i);
+  }
+  return { normalized, map };
+};
+
+export const normalizeArabic = (text: string): string => normalizeWithMap(text).normalized;
+
+export const tokenize = (text: string): string[] =>
+  normalizeArabic(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length > 0);
+
+const PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال', 'و'];
+const SUFFIXES = ['هما', 'كم', 'هم', 'ها', 'ات', 'ان', 'ون', 'ين', 'يه', 'ه', 'ي'];
+const MIN_STEM_LENGTH = 3;
+
+// The article/conjunction part of lightStem alone: a word still being typed has no real suffix yet.
+const stripPrefix = (token: string): string => {
+  for (const p of PREFIXES) {
+    if (token.startsWith(p) && token.length - p.length >= MIN_STEM_LENGTH) return token.slice(p.length);
+  }
+  return token;
+};
+
+// Light stemming: one prefix and one suffix at most, never below 3 letters.
+export const lightStem = (token: string): string => {
+  let stem = stripPrefix(token);
+  for (const s of SUFFIXES) {
+    if (stem.endsWith(s) && stem.length - s.length >= MIN_STEM_LENGTH) {
+      stem = stem.slice(0, -s.length);
+      break;
+    }
+  }
+  return stem;
+};
+
+export interface SearchIndex {
+  videos: Map<string, Video>;
+  // stem -> (videoId -> best field weight)
+  postings: Map<string, Map<string, number>>;
+  terms: string[]; // Sorted stems, for prefix lookups while typing
+  normalizedTitles: Map<string, string>;
+}
+
+const fieldValues = (video: Video): [SearchField, string][] => [
+  ['title', video.title || ''],
+  ['tags', (video.tags || []).join(' ')],
+  ['category', video.category || ''],
+  ['description', video.description || '']
+];
+
+export const buildSearchIndex = (videos: Video[]): SearchIndex => {
+  const index: SearchIndex = { videos: new Map(), postings: new Map(), terms: [], normalizedTitles: new Map() };
+
+  videos.forEach(video => {
+    if (!video || !video.id) return;
+    index.videos.set(video.id, video);
+    index.normalizedTitles.set(video.id, normalizeArabic(video.title || ''));
+
+    fieldValues(video).forEach(([field, value]) => {
+      const weight = FIELD_WEIGHTS[field];
+      tokenize(value).forEach(token => {
+        const stem = lightStem(token);
+        let posting = index.postings.get(stem);
+        if (!posting) {
+          posting = new Map();
+          index.postings.set(stem, posting);
+        }
+        posting.set(video.id, Math.max(posting.get(video.id) || 0, weight));
+      });
+    });
+  });
+
+  index.terms = Array.from(index.postings.keys()).sort();
+  return index;
+};
+
+// Binary search for the first indexed term >= prefix, then walk while it still matches.
+const termsWithPrefix = (index: SearchIndex, prefix: string, limit = 50): string[] => {
+  let lo = 0, hi = index.terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index.terms[mid] < prefix) lo = mid + 1; else hi = mid;
+  }
+  const result: string[] = [];
+  for (let i = lo; i < index.terms.length && result.length < limit; i++) {
+    if (!index.terms[i].startsWith(prefix)) break;
+    result.push(index.terms[i]);
+  }
+  return result;
+};
+
+const PREFIX_MATCH_FACTOR = 0.6;
+const PHRASE_BONUS = 4;
+
+export interface SearchResult {
+  video: Video;
+  score: number;
+}
+
+export const searchVideos = (index: SearchIndex, query: string, limit = 30): SearchResult[] => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  const scores = new Map<string, number>();
+  const matchedTokens = new Map<string, number>();
+
+  queryTokens.forEach((token, i) => {
+    const stem = lightStem(token);
+    const best = new Map<string, number>();
+
+    const exact = index.postings.get(stem);
+    exact?.forEach((w, id) => best.set(id, w));
+
+    // The last token is probably still being typed: allow prefix matches.
+    const isLast = i === queryTokens.length - 1;
+    // Indexed terms have their prefix stripped, so "المدر" must look for "مدر" too.
+    if (isLast || !exact) {
+      const prefixes = isLast ? new Set([token, stripPrefix(token)]) : new Set([stem]);
+      prefixes.forEach(prefix => termsWithPrefix(index, prefix).forEach(term => {
+        if (term === stem) return;
+        index.postings.get(term)?.forEach((w, id) => {
+          best.set(id, Math.max(best.get(id) || 0, w * PREFIX_MATCH_FACTOR));
+        });
+      }));
+    }
+
+    best.forEach((w, id) => {
+      scores.set(id, (scores.get(id) || 0) + w);
+      matchedTokens.set(id, (matchedTokens.get(id) || 0) + 1);
+    });
+  });
+
+  const phrase = normalizeArabic(query).trim();
+  const results: SearchResult[] = [];
+  scores.forEach((score, id) => {
+    const video = index.videos.get(id);
+    if (!video) return;
+    // Videos matching every query word rank above partial matches.
+    const coverage = (matchedTokens.get(id) || 0) / queryTokens.length;
+    let total = score * coverage;
+    if (phrase && index.normalizedTitles.get(id)?.includes(phrase)) total += PHRASE_BONUS;
+    results.push({ video, score: total });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+// Autocomplete: titles and categories that contain what was typed so far.
+export const suggestQueries = (index: SearchIndex, query: string, limit = 6): string[] => {
+  const phrase = normalizeArabic(query).trim();
+  if (phrase.length < 2) return [];
+  const seen = new Set<string>();
+  const suggestions: string[] = [];
+  const push = (text: string) => {
+    if (!text || seen.has(text) || suggestions.length >= limit) return;
+    seen.add(text);
+    suggestions.push(text);
+  };
+
+  index.videos.forEach(video => {
+    if (normalizeArabic(video.category || '').includes(phrase)) push(video.category);
+  });
+  searchVideos(index, query, limit * 2).forEach(r => push(r.video.title));
+  return suggestions;
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits the ORIGINAL text into plain/matched segments; optionally trimmed to a window around the first match.
+export const highlightMatches = (text: string, query: string, snippetRadius?: number): HighlightSegment[] => {
+  if (!text) return [];
+  // Full words first, stems as a fallback so "مدرسه" still highlights inside "مدرستنا".
+  const tokens = Array.from(new Set(tokenize(query).flatMap(t => [t, lightStem(t)])));
+  if (tokens.length === 0) return [{ text, match: false }];
+
+  const { normalized, map } = normalizeWithMap(text);
+  const ranges: [number, number][] = [];
+  tokens.forEach(token => {
+    let from = 0;
+    while (from < normalized.length) {
+      const at = normalized.indexOf(token, from);
+      if (at === -1) break;
+      const start = map[at];
+      const end = (map[at + token.length - 1] ?? map[map.length - 1]) + 1;
+      ranges.push([start, end]);
+      from = at + token.length;
+    }
+  });
+  if (ranges.length === 0) {
+    return [{ text: snippetRadius ? text.slice(0, snippetRadius * 2) : text, match: false }];
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(r => {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([...r] as [number, number]);
+  });
+
+  let windowStart = 0;
+  let windowEnd = text.length;
+  if (snippetRadius) {
+    windowStart = Math.max(0, merged[0][0] - snippetRadius);
+    windowEnd = Math.min(text.length, merged[0][1] + snippetRadius);
+  }
+
+  const segments: HighlightSegment[] = [];
+  let cursor = windowStart;
+  merged.forEach(([start, end]) => {
+    if (end <= windowStart || start >= windowEnd) return;
+    const s = Math.max(start, windowStart);
+    const e = Math.min(end, windowEnd);
+    if (s > cursor) segments.push({ text: text.slice(cursor, s), match: false });
+    segments.push({ text: text.slice(s, e), match: true });
+    cursor = e;
+  });
+  if (cursor < windowEnd) segments.push({ text: text.slice(cursor, windowEnd), match: false });
+
+  if (windowStart > 0) segments.unshift({ text: '…', match: false });
+  if (windowEnd < text.length) segments.push({ text: '…', match: false });
+  return segments;
+};
@@ -0,0 +1,221 @@
+import { RefObject, useEffect, useState } from 'react';
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { db } from './firebaseConfig';
+import { AudioMix, MixerChannel } from './types';
+import { AudioMixStore, sanitizeAudioMix } from './persistence';
+import { canPlayNativeHls } from './hlsStreaming';
+
+// -----------------------------------------------------------------------------
+// AUDIO MIXER (Web Audio)
+// -----------------------------------------------------------------------------
+// كل مصدر صوت (الفيديو، الراوي، صوت العرّافة) يمر عبر GainNode خاص به، فيتحكم المستخدم
+// بمستوى كل منها، ويُخفَض صوت الفيديو تلقائياً (ducking) طالما الراوي يتكلم ثم يعود.
+// المستويات تُحفظ محلياً وفي users/{uid}.audio_mix لتتبع المستخدم بين أجهزته.
+//
+// AudioContext لا يعمل قبل أول لمسة من المستخدم؛ وعنصر يُوصل بسياق متوقف يصبح صامتاً.
+// لذلك العناصر التي تظهر قبل ذلك يُضبط صوتها مباشرة (element.volume) وتُنقل للسياق عند أول لمسة.
+// فيديو HLS الأصلي (Safari/iOS) لا يمر عبر Web Audio أبداً: WebKit يخرج صمتاً من
+// MediaElementSource المغذى بـ HLS، فيبقى على element.volume (على iOS لا يمكن خفضه).
+// -----------------------------------------------------------------------------
+
+const DUCK_LEVEL = 0.25;        // Video gain while a voice speaks
+const DUCK_ATTACK = 0.08;       // setTargetAtTime time constants (s): duck fast, restore gently
+const DUCK_RELEASE = 0.35;
+const VOLUME_SMOOTHING = 0.05;
+const PUSH_DELAY_MS = 2000;
+
+let context: AudioContext | null = null;
+const channelGains = new Map<MixerChannel, GainNode>();
+let duckGain: GainNode | null = null;
+
+// Elements routed through Web Audio; createMediaElementSource works only once per element
+const sources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+// Attached but not routed (no running context yet, or no Web Audio): volume set on the element
+const directElements = new Map<HTMLMediaElement, MixerChannel>();
+
+let mix: AudioMix = AudioMixStore.load();
+let ducked = false;
+
+type AudioMixListener = (mix: AudioMix) => void;
+const mixListeners = new Set<AudioMixListener>();
+
+export const getAudioMix = (): AudioMix => mix;
+
+export const subscribeToAudioMix = (listener: AudioMixListener) => {
+  mixListeners.add(listener);
+  return () => { mixListeners.delete(listener); };
+};
+
+export const useAudioMix = (): AudioMix => {
+  const [current, setCurrent] = useState(getAudioMix);
+  useEffect(() => subscribeToAudioMix(setCurrent), []);
+  return current;
+};
+
+// --- GRAPH ---
+
+const createContext = (): AudioContext | null => {
+  if (context) return context;
+  const Ctor = typeof window !== 'undefined' ? (window.AudioContext || (window as any).webkitAudioContext) : undefined;
+  if (!Ctor) return null;
+  try {
+    context = new Ctor() as AudioContext;
+  } catch (e) {
+    console.warn("Audio mixer: Web Audio unavailable", e);
+    return null;
+  }
+  (['video', 'narration', 'avatar'] as MixerChannel[]).forEach(channel => {
+    const gain = context!.createGain();
+    gain.gain.value = mix[channel];
+    gain.connect(context!.destination);
+    channelGains.set(channel, gain);
+  });
+  duckGain = context.createGain();
+  duckGain.gain.value = ducked ? DUCK_LEVEL : 1;
+  duckGain.connect(channelGains.get('video')!);
+  return context;
+};
+
+const inputFor = (channel: MixerChannel): AudioNode =>
+  channel === 'video' ? duckGain! : channelGains.get(channel)!;
+
+const isRunning = () => context?.state === 'running';
+
+// Element volume when it can't go through the graph
+const applyDirectVolume = (element: HTMLMediaElement, channel: MixerChannel) => {
+  const duck = channel === 'video' && ducked ? DUCK_LEVEL : 1;
+  try {
+    element.volume = Math.min(1, Math.max(0, mix[channel] * duck));
+  } catch (e) {
+    // Read-only on some mobile browsers; nothing else to do without Web Audio
+  }
+};
+
+// Players pick native HLS whenever the browser offers it (hlsStreaming.ts), and a routed element
+// can't be un-routed when it later switches to such a source: those browsers keep video direct.
+const canRoute = (element: HTMLMediaElement) =>
+  !(element instanceof HTMLVideoElement && canPlayNativeHls(element));
+
+const route = (element: HTMLMediaElement, channel: MixerChannel): boolean => {
+  if (!context || !isRunning() || !canRoute(element)) return false;
+  try {
+    let source = sources.get(element);
+    if (!source) {
+      source = context.createMediaElementSource(element);
+      sources.set(element, source);
+    } else {
+      source.disconnect();
+    }
+    source.connect(inputFor(channel));
+    element.volume = 1;
+    return true;
+  } catch (e) {
+    console.warn("Audio mixer: element could not be routed, using its volume", e);
+    return false;
+  }
+};
+
+// First user gesture: start the context and move the waiting elements into it
+const unlockAudio = () => {
+  const ctx = createContext();
+  if (!ctx || ctx.state === 'running') return;
+  ctx.resume().then(() => {
+    directElements.forEach((channel, element) => {
+      if (route(element, channel)) directElements.delete(element);
+    });
+  }).catch(() => {});
+};
+
+if (typeof document !== 'undefined') {
+  ['pointerdown', 'keydown', 'touchend'].forEach(type =>
+    document.addEventListener(type, unlockAudio, { capture: true, passive: true })
+  );
+  // iOS suspends the context in the background
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible' && context && context.state !== 'running') context.resume().catch(() => {});
+  });
+}
+
+/**
+ * يربط عنصر صوت/فيديو بقناة في الخلاط. يعيد دالة فك الربط.
+ */
+export const attachToMixer = (element: HTMLMediaElement, channel: MixerChannel) => {
+  if (!route(element, channel)) {
+    directElements.set(element, channel);
+    applyDirectVolume(element, channel);
+  }
+  return () => {
+    directElements.delete(element);
+    sources.get(element)?.disconnect();
+  };
+};
+
+// Player elements: attached for as long as the component is mounted
+export const useMixerChannel = (ref: RefObject<HTMLMediaElement | null>, channel: MixerChannel) => {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    return attachToMixer(element, channel);
+  }, [ref, channel]);
+};
+
+// For voices that can't be routed at all (speechSynthesis): their own volume setting
+export const channelVolume = (channel: MixerChannel) => mix[channel];
+
+/**
+ * يخفض صوت الفيديو أثناء كلام الراوي أو العرّافة، ويعيده بعد انتهائه.
+ */
+export const setVoiceDucking = (active: boolean) => {
+  if (ducked === active) return;
+  ducked = active;
+  if (context && duckGain) {
+    duckGain.gain.setTargetAtTime(active ? DUCK_LEVEL : 1, context.currentTime, active ? DUCK_ATTACK : DUCK_RELEASE);
+  }
+  directElements.forEach((channel, element) => { if (channel === 'video') applyDirectVolume(element, channel); });
+};
+
+// --- SETTINGS ---
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+let mixUid: string | null = null;
+
+const pushMix = () => {
+  if (pushTimer) clearTimeout(pushTimer);
+  const uid = mixUid;
+  if (!uid) return;
+  pushTimer = setTimeout(() => {
+    pushTimer = null;
+    setDoc(doc(db, "users", uid), { audio_mix: mix }, { merge: true })
+      .catch(e => console.warn("Audio mix: push failed", e));
+  }, PUSH_DELAY_MS);
+};
+
+const applyMix = (next: AudioMix) => {
+  mix = next;
+  AudioMixStore.save(mix);
+  if (context) {
+    channelGains.forEach((gain, channel) => gain.gain.setTargetAtTime(mix[channel], context!.currentTime, VOLUME_SMOOTHING));
+  }
+  directElements.forEach((channel, element) => applyDirectVolume(element, channel));
+  mixListeners.forEach(l => l(mix));
+};
+
+export const setChannelVolume = (channel: MixerChannel, volume: number) => {
+  applyMix({ ...mix, [channel]: Math.min(1, Math.max(0, volume)), updatedAt: Date.now() });
+  pushMix();
+};
+
+/**
+ * يربط الخلاط بالمستخدم: أحدث نسخة (المحلية أو users/{uid}.audio_mix) تفوز.
+ */
+export const bindAudioMixUser = async (uid: string) => {
+  mixUid = uid;
+  try {
+    const snap = await getDoc(doc(db, "users", uid));
+    const remote = snap.exists() && snap.data()?.audio_mix ? sanitizeAudioMix(snap.data()!.audio_mix) : null;
+    if (remote && remote.updatedAt > mix.updatedAt) applyMix(remote);
+    else if (mix.updatedAt > (remote?.updatedAt || 0)) pushMix();
+  } catch (e) {
+    console.warn("Audio mix: pull failed", e);
+  }
+};
@@ -0,0 +1,454 @@
+import {
+  collection, query, where, orderBy, limit, startAfter, getDocs, onSnapshot, documentId, updateDoc,
+  QuerySnapshot, QueryDocumentSnapshot, QueryConstraint, DocumentData
+} from "firebase/firestore";
+import { db } from './firebaseConfig';
+import { Video } from './types';
+import { VideoCatalogStore } from './persistence';
+import { getCreatedAtMs } from './feedRanking';
+
+// -----------------------------------------------------------------------------
+// OFFLINE-FIRST VIDEO CATALOG (INDEXEDDB)
+// -----------------------------------------------------------------------------
+// الكتالوج كان نصاً واحداً في localStorage (حد ~5MB). الآن: فيديو لكل سجل في IndexedDB.
+// التشغيل البارد يعرض النسخة المحلية فوراً، ثم onSnapshot يطبّق الفروقات فقط:
+// أول لقطة من السيرفر تُقارن بالكامل (لالتقاط ما حُذف أثناء غياب المستخدم)،
+// وبعدها docChanges() فقط. لقطات الكاش (fromCache) لا تحذف شيئاً أبداً.
+//
+// بدون "المزامنة الكاملة" (اختيارية، للخزنة): لا نستمع للمجموعة كلها بل لأحدث صفحة فقط،
+// والصفحات الأقدم تُجلب بمؤشر created_at عند التمرير، والأقسام والترند والبحث
+// باستعلامات موجهة. ما يُجلب يبقى في IndexedDB فيظهر فوراً في المرة القادمة.
+// كل صفحة مرتبة من السيرفر تغطي فترة من created_at: ما عندنا محلياً داخل تلك الفترة ولم يرجع
+// يُسأل عنه بالـ id، فيُحذف ما حذفه المدير بدل أن يبقى في الخلاصة للأبد.
+// -----------------------------------------------------------------------------
+
+const DB_NAME = 'rooh-catalog';
+const DB_VERSION = 1;
+const VIDEO_STORE = 'videos';
+export const CATALOG_PAGE_SIZE = 30;
+const TREND_LIMIT = 60;
+const SEARCH_LIMIT = 20;
+const IDS_PER_QUERY = 30;   // Firestore's cap for an 'in' filter
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openCatalogDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(VIDEO_STORE)) {
+            request.result.createObjectStore(VIDEO_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        // Private mode in some browsers: the catalog then lives in memory for the session
+        request.onerror = () => {
+          console.warn("Catalog DB unavailable", request.error);
+          resolve(null);
+        };
+      } catch (e) {
+        console.warn("Catalog DB unavailable", e);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const readAll = async (): Promise<Video[]> => {
+  const db = await openCatalogDb();
+  if (!db) return [];
+  return new Promise(resolve => {
+    const request = db.transaction(VIDEO_STORE, 'readonly').objectStore(VIDEO_STORE).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => {
+      console.warn("Catalog DB read failed", request.error);
+      resolve([]);
+    };
+  });
+};
+
+// Resolves false when nothing was stored (no IndexedDB, or the transaction failed)
+const writeChanges = async (upserts: Video[], removedIds: string[]): Promise<boolean> => {
+  if (upserts.length === 0 && removedIds.length === 0) return true;
+  const db = await openCatalogDb();
+  if (!db) return false;
+  return new Promise(resolve => {
+    const tx = db.transaction(VIDEO_STORE, 'readwrite');
+    const store = tx.objectStore(VIDEO_STORE);
+    upserts.forEach(v => store.put(v));
+    removedIds.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve(true);
+    tx.onerror = () => {
+      console.warn("Catalog DB write failed", tx.error);
+      resolve(false);
+    };
+    tx.onabort = () => resolve(false);
+  });
+};
+
+// Firestore Timestamps become plain { seconds, nanoseconds } so the stored copy compares equal
+// to the next snapshot's (and reads the same way everywhere: created_at.seconds).
+const plainValue = (value: any) =>
+  value && typeof value === 'object' && typeof value.seconds === 'number' && typeof value.toMillis === 'function'
+    ? { seconds: value.seconds, nanoseconds: value.nanoseconds }
+    : value;
+
+export const videoFromDoc = (id: string, data: DocumentData): Video => {
+  const video: any = { id };
+  Object.keys(data).forEach(key => { video[key] = plainValue(data[key]); });
+  if (typeof video.video_type === 'string') video.video_type = video.video_type.trim();
+  return video as Video;
+};
+
+const isPlayable = (v: Video) =>
+  (v.video_url && v.video_url.trim() !== "") || (v.redirect_url && v.redirect_url.trim() !== "");
+
+// created_at of a page boundary doc (the cursor), for the time range a page covers
+const cursorMs = (cursor: QueryDocumentSnapshot<DocumentData> | null) =>
+  cursor ? getCreatedAtMs(videoFromDoc(cursor.id, cursor.data())) : Infinity;
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+// A paged list: the next query starts after the last doc seen
+interface PageCursor {
+  last: QueryDocumentSnapshot<DocumentData> | null;
+  exhausted: boolean;
+  loading: boolean;
+}
+
+const newCursor = (): PageCursor => ({ last: null, exhausted: false, loading: false });
+
+class VideoCatalogCache {
+  private byId = new Map<string, Video>();
+  private loadPromise: Promise<Video[]> | null = null;
+  // True once a full server snapshot has been compared against the local copy
+  private reconciled = false;
+  // True once the server confirmed which of the user's downloads still exist (paged mode)
+  private libraryVerified = false;
+  private fullSync = false;
+  private feedCursor = newCursor();
+  private categoryCursors = new Map<string, PageCursor>();
+  // Composite indexes (category + created_at) may not be deployed yet: then pages go unordered
+  private unorderedCategories = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+  // The watcher's callback, for removals found after a page was already returned
+  private onRemoved: ((list: Video[]) => void) | null = null;
+
+  // Newest first, playable only: what the app shows
+  getList(): Video[] {
+    return Array.from(this.byId.values())
+      .filter(isPlayable)
+      .sort((a, b) => getCreatedAtMs(b) - getCreatedAtMs(a));
+  }
+
+  // The catalog can say whether a video was deleted: full sync done, or the library checked
+  isSynced() {
+    return this.reconciled || this.libraryVerified;
+  }
+
+  hasMore() {
+    return !this.fullSync && !this.feedCursor.exhausted;
+  }
+
+  categoryHasMore(category: string) {
+    return !this.fullSync && !this.categoryCursors.get(category)?.exhausted;
+  }
+
+  /**
+   * يقرأ النسخة المحلية مرة واحدة (ويرحّل نسخة localStorage القديمة إن وجدت).
+   */
+  load(): Promise<Video[]> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        let stored = await readAll();
+        if (stored.length === 0 && VideoCatalogStore.exists()) {
+          stored = VideoCatalogStore.load();
+          // Private mode / blocked IndexedDB: the old key stays the only offline copy
+          if (await writeChanges(stored, [])) {
+            try { localStorage.removeItem(VideoCatalogStore.storageKey); } catch (e) {}
+          }
+        } else if (stored.length > 0) {
+          // Already migrated on an earlier start
+          try { localStorage.removeItem(VideoCatalogStore.storageKey); } catch (e) {}
+        }
+        stored.forEach(v => { if (v && typeof v.id === 'string') this.byId.set(v.id, v); });
+        return this.getList();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Live catalog. Full sync listens to the whole collection; otherwise only to the newest page.
+   * onChange gets the new list (not called when nothing changed).
+   */
+  watch(
+    options: { fullSync: boolean },
+    onChange: (list: Video[], fromCache: boolean) => void,
+    onError: (e: any) => void
+  ): () => void {
+    this.fullSync = options.fullSync;
+    this.feedCursor = newCursor();
+    this.onRemoved = list => onChange(list, false);
+    // A new full listener starts over: deletions since the last one are only seen by a reconcile
+    if (options.fullSync) this.reconciled = false;
+    const q = options.fullSync
+      ? query(collection(db, "videos"))
+      : query(collection(db, "videos"), orderBy('created_at', 'desc'), limit(CATALOG_PAGE_SIZE));
+
+    let serverAnswered = false;
+    return onSnapshot(q, { includeMetadataChanges: true }, snapshot => {
+      const list = options.fullSync ? this.applySnapshot(snapshot) : this.applyFirstPage(snapshot);
+      // The first server answer is reported even without changes: an empty one means no videos at all
+      const firstAnswer = !snapshot.metadata.fromCache && !serverAnswered;
+      if (firstAnswer) serverAnswered = true;
+      if (list || firstAnswer) onChange(list || this.getList(), snapshot.metadata.fromCache);
+    }, onError);
+  }
+
+  /**
+   * Applies a snapshot of the whole videos collection. Returns the new list, or null when
+   * nothing changed (metadata-only snapshots, cache snapshots before the server answers).
+   */
+  applySnapshot(snapshot: QuerySnapshot<DocumentData>): Video[] | null {
+    const upserts: Video[] = [];
+    const removedIds: string[] = [];
+
+    if (!this.reconciled) {
+      const fromCache = snapshot.metadata.fromCache;
+      const incoming = new Map(snapshot.docs.map(d => [d.id, videoFromDoc(d.id, d.data())]));
+      incoming.forEach((video, id) => {
+        const current = this.byId.get(id);
+        if (!current || JSON.stringify(current) !== JSON.stringify(video)) upserts.push(video);
+      });
+      if (!fromCache) {
+        this.byId.forEach((_, id) => { if (!incoming.has(id)) removedIds.push(id); });
+        this.reconciled = true;
+      } else if (upserts.length === 0) {
+        return null;
+      }
+    } else {
+      snapshot.docChanges().forEach(change => {
+        if (change.type === 'removed') removedIds.push(change.doc.id);
+        else upserts.push(videoFromDoc(change.doc.id, change.doc.data()));
+      });
+      if (upserts.length === 0 && removedIds.length === 0) return null;
+    }
+
+    return this.apply(upserts, removedIds);
+  }
+
+  // Newest page: a doc leaving it may just have been pushed out by a newer upload,
+  // so removals are checked against the server instead of trusted.
+  private applyFirstPage(snapshot: QuerySnapshot<DocumentData>): Video[] | null {
+    if (!snapshot.metadata.fromCache && !this.feedCursor.last) {
+      this.feedCursor.last = snapshot.docs[snapshot.docs.length - 1] || null;
+      this.feedCursor.exhausted = snapshot.docs.length < CATALOG_PAGE_SIZE;
+      // Everything local that is newer than the page's oldest doc must be in it, and local docs
+      // without created_at can never be in an ordered page: both are asked for by id.
+      const page = snapshot.docs.map(d => videoFromDoc(d.id, d.data()));
+      this.reconcileRange(page, Infinity, this.feedCursor.exhausted ? -Infinity : cursorMs(this.feedCursor.last), undefined, true);
+    }
+    const upserts: Video[] = [];
+    const leftIds: string[] = [];
+    snapshot.docChanges().forEach(change => {
+      if (change.type === 'removed') leftIds.push(change.doc.id);
+      else upserts.push(videoFromDoc(change.doc.id, change.doc.data()));
+    });
+    if (leftIds.length > 0) this.refreshIds(leftIds);
+    const changed = upserts.filter(v => JSON.stringify(this.byId.get(v.id)) !== JSON.stringify(v));
+    if (changed.length === 0) return null;
+    return this.apply(changed, []);
+  }
+
+  // Runs a page query; a missing composite index falls back to the same filter unordered.
+  // match: which local docs the filters select (for the range check)
+  private async fetchPage(
+    cursor: PageCursor,
+    filters: QueryConstraint[],
+    ordered: boolean,
+    match?: (v: Video) => boolean
+  ): Promise<Video[] | null> {
+    if (cursor.exhausted || cursor.loading) return null;
+    cursor.loading = true;
+    try {
+      const constraints = [...filters];
+      if (ordered) constraints.push(orderBy('created_at', 'desc'));
+      if (cursor.last) constraints.push(startAfter(cursor.last));
+      constraints.push(limit(CATALOG_PAGE_SIZE));
+      const snapshot = await getDocs(query(collection(db, "videos"), ...constraints));
+      const newestMs = cursorMs(cursor.last);
+      cursor.last = snapshot.docs[snapshot.docs.length - 1] || cursor.last;
+      cursor.exhausted = snapshot.docs.length < CATALOG_PAGE_SIZE;
+      const videos = snapshot.docs.map(d => videoFromDoc(d.id, d.data()));
+      this.apply(videos, []);
+      if (ordered && !snapshot.metadata.fromCache) {
+        this.reconcileRange(videos, newestMs, cursor.exhausted ? -Infinity : cursorMs(cursor.last), match);
+      }
+      return videos;
+    } finally {
+      cursor.loading = false;
+    }
+  }
+
+  /**
+   * الصفحة التالية من الخلاصة (الأقدم). يعيد الفيديوهات المجلوبة، أو null إن لم يكن هناك المزيد
+   * أو كان الطلب جارياً أو فشل (بدون نت).
+   */
+  async loadNextPage(): Promise<Video[] | null> {
+    if (this.fullSync || !this.feedCursor.last) return null;
+    try {
+      return await this.fetchPage(this.feedCursor, [], true);
+    } catch (e) {
+      console.warn("Catalog: next page failed", e);
+      return null;
+    }
+  }
+
+  async loadCategory(category: string): Promise<Video[] | null> {
+    if (this.fullSync || !category) return null;
+    let cursor = this.categoryCursors.get(category);
+    if (!cursor) {
+      cursor = newCursor();
+      this.categoryCursors.set(category, cursor);
+    }
+    const filters = [where('category', '==', category)];
+    try {
+      return await this.fetchPage(cursor, filters, !this.unorderedCategories, v => v.category === category);
+    } catch (e: any) {
+      if (e?.code === 'failed-precondition' && !this.unorderedCategories) {
+        console.warn("Catalog: category index missing, loading unordered", e);
+        this.unorderedCategories = true;
+        cursor.last = null;
+        return this.loadCategory(category);
+      }
+      console.warn("Catalog: category page failed", e);
+      return null;
+    }
+  }
+
+  // Trending is a flag, not an age: one query, then a refresh of local docs that lost it.
+  async loadTrending(): Promise<Video[] | null> {
+    if (this.fullSync) return null;
+    try {
+      const snapshot = await getDocs(query(collection(db, "videos"), where('is_trending', '==', true), limit(TREND_LIMIT)));
+      const videos = snapshot.docs.map(d => videoFromDoc(d.id, d.data()));
+      const returned = new Set(videos.map(v => v.id));
+      this.apply(videos, []);
+      const stale = Array.from(this.byId.values()).filter(v => v.is_trending && !returned.has(v.id)).map(v => v.id);
+      if (stale.length > 0 && snapshot.size < TREND_LIMIT) await this.refreshIds(stale);
+      return videos;
+    } catch (e) {
+      console.warn("Catalog: trending query failed", e);
+      return null;
+    }
+  }
+
+  // Firestore has no text search: titles starting with the query. Fuzzy matching stays in arabicSearch.ts.
+  async searchTitles(text: string): Promise<Video[] | null> {
+    const prefix = text.trim();
+    if (this.fullSync || prefix.length < 2) return null;
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, "videos"),
+        where('title', '>=', prefix),
+        where('title', '<=', prefix + '\uf8ff'),
+        limit(SEARCH_LIMIT)
+      ));
+      const videos = snapshot.docs.map(d => videoFromDoc(d.id, d.data()));
+      this.apply(videos, []);
+      return videos;
+    } catch (e) {
+      console.warn("Catalog: title search failed", e);
+      return null;
+    }
+  }
+
+  /**
+   * Fetches these docs again; ids the server no longer has are removed. Used for the user's
+   * library (saved, liked, downloaded videos may be far older than any loaded page).
+   * Returns false when the server could not be asked.
+   */
+  async refreshIds(ids: string[]): Promise<boolean> {
+    const unique = Array.from(new Set(ids));
+    if (unique.length === 0) return true;
+    try {
+      const found: Video[] = [];
+      for (const batch of chunk(unique, IDS_PER_QUERY)) {
+        const snapshot = await getDocs(query(collection(db, "videos"), where(documentId(), 'in', batch)));
+        if (snapshot.metadata.fromCache) return false;
+        snapshot.docs.forEach(d => found.push(videoFromDoc(d.id, d.data())));
+      }
+      const foundIds = new Set(found.map(v => v.id));
+      this.apply(found, unique.filter(id => !foundIds.has(id)));
+      return true;
+    } catch (e) {
+      console.warn("Catalog: refresh failed", e);
+      return false;
+    }
+  }
+
+  /**
+   * A server page, ordered by created_at, covered [oldestMs, newestMs]: local docs in that range
+   * that it didn't return were deleted (or re-dated), so they are fetched again by id.
+   */
+  private reconcileRange(page: Video[], newestMs: number, oldestMs: number, match?: (v: Video) => boolean, withUndated = false) {
+    const returned = new Set(page.map(v => v.id));
+    const candidates = Array.from(this.byId.values()).filter(v => {
+      if (returned.has(v.id) || (match && !match(v))) return false;
+      const ms = getCreatedAtMs(v);
+      return (withUndated && ms === 0) || (ms >= oldestMs && ms <= newestMs);
+    });
+    if (candidates.length === 0) return;
+    const before = this.byId.size;
+    this.refreshIds(candidates.map(v => v.id)).then(() => {
+      if (this.byId.size < before) this.onRemoved?.(this.getList());
+    });
+  }
+
+  // Loads the user's library docs that aren't local yet, and re-checks downloads so the vault
+  // can tell deleted videos apart from ones that were simply never paged in.
+  async ensureLibrary(referencedIds: string[], downloadedIds: string[]): Promise<Video[]> {
+    if (this.fullSync) return this.getList();
+    const missing = referencedIds.filter(id => !this.byId.has(id));
+    const ok = await this.refreshIds([...missing, ...downloadedIds]);
+    if (ok) this.libraryVerified = true;
+    return this.getList();
+  }
+
+  // Videos known only from elsewhere (an imported library archive). The next server
+  // reconcile drops them again if they no longer exist.
+  addVideos(videos: Video[]): Video[] | null {
+    const added = videos.filter(v => !this.byId.has(v.id));
+    if (added.length === 0) return null;
+    return this.apply(added, []);
+  }
+
+  private apply(upserts: Video[], removedIds: string[]): Video[] {
+    upserts.forEach(v => this.byId.set(v.id, v));
+    removedIds.forEach(id => this.byId.delete(id));
+    // In order: a quick delete after an add must not be overtaken
+    this.writeQueue = this.writeQueue.then(() => writeChanges(upserts, removedIds)).then(() => {}, () => {});
+    return this.getList();
+  }
+}
+
+export const VideoCatalog = new VideoCatalogCache();
+
+// One-off admin step (AdminDashboard.tsx): ordered pages skip docs that have no created_at field,
+// so paged clients never see them. An explicit null keeps the date unknown but is still ordered
+// (after every dated video). Returns how many docs were marked.
+export const markUndatedVideos = async (): Promise<number> => {
+  const snapshot = await getDocs(collection(db, "videos"));
+  const undated = snapshot.docs.filter(d => !('created_at' in d.data()));
+  await Promise.all(undated.map(d => updateDoc(d.ref, { created_at: null })));
+  return undated.length;
+};
@@ -0,0 +1,399 @@
+import { Video, DownloadItem, DownloadQueueState } from './types';
+import { DownloadQueueStore, VaultCheckStore } from './persistence';
+import { OFFLINE_CACHE_NAME, VAULT_HEADERS, getVideoVersionMs } from './offlineManager';
+
+// -----------------------------------------------------------------------------
+// DOWNLOAD MANAGER (VAULT)
+// -----------------------------------------------------------------------------
+// طابور تحميل للخزنة: التحميل على أجزاء (Range) تُحفظ في Cache Storage أولاً بأول،
+// لذلك انقطاع الشبكة أو إعادة تحميل الصفحة لا يضيع ما تم تحميله — نكمل من آخر جزء.
+// إيقاف مؤقت / إلغاء لكل عنصر، حد أقصى للتحميلات المتزامنة، وحالة الطابور محفوظة.
+// عند الاكتمال تُجمع الأجزاء في ملف واحد داخل hadiqa-horror-offline-v1 (يقرأه sw.js)،
+// موسوماً بالحجم المتوقع و ETag ووقت تحديث الفيديو حتى يمكن فحصه لاحقاً (vaultIntegrity.ts).
+// -----------------------------------------------------------------------------
+
+export interface AggregateProgress {
+  active: number;          // Items queued or downloading
+  progress: number;        // 0..100 over all of them
+}
+
+const CHUNK_SIZE = 2 * 1024 * 1024;
+export const DOWNLOAD_PARTS_CACHE = 'rooh-download-parts-v1';
+const PARTS_ORIGIN = 'https://rooh-download-parts.local';
+const RETRY_DELAY_MS = 5000;
+
+type DownloadListener = (items: DownloadItem[]) => void;
+
+const partUrl = (id: string, index: number) => `${PARTS_ORIGIN}/${encodeURIComponent(id)}/${index}`;
+
+// Size and ETag from a HEAD request (0 / '' when unknown). Content-Length is CORS-safelisted,
+// so the size works even when the server exposes neither Content-Range nor ETag.
+export const probeRemoteFile = async (url: string, signal?: AbortSignal): Promise<{ length: number, etag: string }> => {
+  try {
+    const head = await fetch(url, { method: 'HEAD', signal, cache: 'no-store' });
+    const length = Number(head.headers.get('Content-Length'));
+    return { length: head.ok && length > 0 ? length : 0, etag: (head.ok && head.headers.get('ETag')) || '' };
+  } catch (e: any) {
+    if (e?.name === 'AbortError') throw e;
+    return { length: 0, etag: '' };
+  }
+};
+
+export const probeContentLength = async (url: string, signal?: AbortSignal): Promise<number> =>
+  (await probeRemoteFile(url, signal)).length;
+
+const parseTotalFromContentRange = (header: string | null): number => {
+  const match = /\/(\d+)$/.exec(header || '');
+  return match ? Number(match[1]) : 0;
+};
+
+class DownloadManagerService {
+  private state: DownloadQueueState;
+  private listeners: DownloadListener[] = [];
+  private controllers = new Map<string, AbortController>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.state = DownloadQueueStore.load();
+    // After a reload nothing is actually running: whatever was mid-flight continues from its stored parts.
+    this.state.items.forEach(item => {
+      if (item.status === 'downloading') item.status = 'queued';
+    });
+    this.persist();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.retryFailed());
+      setTimeout(() => this.pump(), 0);
+    }
+  }
+
+  // --- STATE ---
+
+  private persist() {
+    DownloadQueueStore.save(this.state);
+  }
+
+  private emit() {
+    const snapshot = this.getItems();
+    this.listeners.forEach(l => l(snapshot));
+  }
+
+  private update(id: string, patch: Partial<DownloadItem>) {
+    const item = this.find(id);
+    if (!item) return;
+    Object.assign(item, patch);
+    this.persist();
+    this.emit();
+  }
+
+  private find(id: string) {
+    return this.state.items.find(i => i.id === id);
+  }
+
+  public getItems(): DownloadItem[] {
+    return this.state.items.map(i => ({ ...i }));
+  }
+
+  public getItem(id: string): DownloadItem | undefined {
+    const item = this.find(id);
+    return item ? { ...item } : undefined;
+  }
+
+  public subscribe(listener: DownloadListener) {
+    this.listeners.push(listener);
+    listener(this.getItems());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  public getMaxConcurrent() {
+    return this.state.maxConcurrent;
+  }
+
+  public setMaxConcurrent(value: number) {
+    this.state.maxConcurrent = Math.max(1, Math.min(4, Math.round(value)));
+    this.persist();
+    this.emit();
+    this.pump();
+  }
+
+  // --- QUEUE ACTIONS ---
+
+  public enqueue(video: Video) {
+    if (!video?.id || !video.video_url) return;
+    const existing = this.find(video.id);
+    if (existing) {
+      if (existing.status === 'paused' || existing.status === 'error') this.resume(video.id);
+      return;
+    }
+    this.state.items.push({
+      id: video.id,
+      url: video.video_url,
+      title: video.title || '',
+      status: 'queued',
+      bytesDownloaded: 0,
+      totalBytes: 0,
+      parts: 0,
+      addedAt: Date.now(),
+      videoUpdatedAt: getVideoVersionMs(video)
+    });
+    this.persist();
+    this.emit();
+    this.pump();
+  }
+
+  public pause(id: string) {
+    const item = this.find(id);
+    if (!item || item.status === 'done') return;
+    this.controllers.get(id)?.abort();
+    this.update(id, { status: 'paused' });
+    this.pump();
+  }
+
+  public resume(id: string) {
+    const item = this.find(id);
+    if (!item || (item.status !== 'paused' && item.status !== 'error')) return;
+    this.update(id, { status: 'queued', error: undefined });
+    this.pump();
+  }
+
+  public async cancel(id: string) {
+    this.controllers.get(id)?.abort();
+    const item = this.find(id);
+    this.state.items = this.state.items.filter(i => i.id !== id);
+    this.persist();
+    this.emit();
+    if (item) await this.deleteParts(item);
+    this.pump();
+  }
+
+  // The app moved a finished item into the library (downloadedIds): drop it from the queue.
+  public acknowledge(id: string) {
+    const item = this.find(id);
+    if (!item || item.status !== 'done') return;
+    this.state.items = this.state.items.filter(i => i.id !== id);
+    this.persist();
+    this.emit();
+  }
+
+  private retryFailed() {
+    let changed = false;
+    this.state.items.forEach(item => {
+      if (item.status === 'error') {
+        item.status = 'queued';
+        item.error = undefined;
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.persist();
+      this.emit();
+    }
+    this.pump();
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (typeof navigator === 'undefined' || navigator.onLine) this.retryFailed();
+    }, RETRY_DELAY_MS);
+  }
+
+  // Starts queued items until the concurrency limit is reached (oldest first).
+  private pump() {
+    const running = this.state.items.filter(i => i.status === 'downloading').length;
+    const slots = this.state.maxConcurrent - running;
+    if (slots <= 0) return;
+    this.state.items
+      .filter(i => i.status === 'queued')
+      .sort((a, b) => a.addedAt - b.addedAt)
+      .slice(0, slots)
+      .forEach(item => { this.run(item.id); });
+  }
+
+  // --- TRANSFER ---
+
+  private async run(id: string) {
+    const item = this.find(id);
+    if (!item || typeof caches === 'undefined') return;
+
+    // The controller is also this run's token: a pause + quick resume starts a new run while this
+    // one may still be inside an await, and only the newest run may touch the item or its parts.
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    const superseded = () => controller.signal.aborted || this.controllers.get(id) !== controller;
+    this.update(id, { status: 'downloading', error: undefined });
+
+    try {
+      const parts = await caches.open(DOWNLOAD_PARTS_CACHE);
+
+      if (!item.totalBytes) {
+        const { length, etag } = await probeRemoteFile(item.url, controller.signal);
+        if (superseded()) return;
+        if (length) this.update(id, { totalBytes: length });
+        if (etag && !item.etag) this.update(id, { etag });
+      }
+
+      let finished = false;
+      while (!finished) {
+        const current = this.find(id);
+        if (!current || current.status !== 'downloading' || superseded()) return; // Paused or cancelled
+
+        const start = current.bytesDownloaded;
+        const end = current.totalBytes ? Math.min(start + CHUNK_SIZE, current.totalBytes) - 1 : start + CHUNK_SIZE - 1;
+        if (current.totalBytes && start >= current.totalBytes) break;
+
+        const response = await fetch(current.url, {
+          headers: { 'Range': `bytes=${start}-${end}` },
+          signal: controller.signal,
+          cache: 'no-store'
+        });
+        if (superseded()) return;
+
+        if (response.status === 416 && current.totalBytes && start >= current.totalBytes) break;
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        // The file was replaced at the same URL since the earlier parts: they belong to the old file.
+        const etag = response.headers.get('ETag') || '';
+        if (etag && current.etag && etag !== current.etag && start > 0) {
+          console.warn(`Download ${id}: source changed mid-download, restarting`);
+          await this.resetParts(current);
+          this.update(id, { etag, totalBytes: 0 });
+          continue;
+        }
+        if (etag && !current.etag) this.update(id, { etag });
+
+        const blob = await response.blob();
+        if (superseded()) return;
+
+        if (response.status === 200) {
+          // No Range support: the whole file came back. Start over with it as the only part.
+          await this.deleteParts(current);
+          await parts.put(partUrl(id, 0), new Response(blob, { headers: { 'Content-Type': blob.type || 'video/mp4' } }));
+          if (superseded()) return;
+          this.update(id, { parts: 1, bytesDownloaded: blob.size, totalBytes: blob.size });
+          finished = true;
+          break;
+        }
+
+        await parts.put(partUrl(id, current.parts), new Response(blob, { headers: { 'Content-Type': blob.type || 'video/mp4' } }));
+        if (superseded()) return;
+        const total = current.totalBytes || parseTotalFromContentRange(response.headers.get('Content-Range'));
+        const downloaded = start + blob.size;
+        this.update(id, { parts: current.parts + 1, bytesDownloaded: downloaded, totalBytes: total });
+
+        // Without a known size, a short chunk is the end of the file.
+        finished = total ? downloaded >= total : blob.size < end - start + 1;
+      }
+
+      await this.assemble(id, superseded);
+    } catch (e: any) {
+      if (e?.name === 'AbortError' || superseded()) return; // pause() / cancel() already set the status
+      if (e?.name === 'QuotaExceededError') {
+        // Retrying can't help until space is freed: park it for the user to resume.
+        console.warn(`Download ${id} paused: storage quota exceeded`);
+        this.update(id, { status: 'paused', error: 'مساحة التخزين ممتلئة' });
+        return;
+      }
+      console.warn(`Download ${id} interrupted, will resume from byte ${this.find(id)?.bytesDownloaded}`, e);
+      this.update(id, { status: 'error', error: String(e?.message || e) });
+      this.scheduleRetry();
+    } finally {
+      if (this.controllers.get(id) === controller) this.controllers.delete(id);
+      // cancel() ran while a part was being written: that part landed after its cleanup
+      if (!this.find(id)) await this.deleteParts(item);
+      this.pump();
+    }
+  }
+
+  // Joins the stored parts into the single response the vault (and sw.js) reads.
+  // A missing part or a size that doesn't match the server's means a broken set: start over.
+  private async assemble(id: string, superseded: () => boolean) {
+    const item = this.find(id);
+    if (!item || superseded()) return;
+    const parts = await caches.open(DOWNLOAD_PARTS_CACHE);
+    const blobs: Blob[] = [];
+    let type = 'video/mp4';
+    for (let i = 0; i < item.parts; i++) {
+      const part = await parts.match(partUrl(id, i));
+      if (!part) {
+        await this.resetParts(item);
+        throw new Error(`Missing part ${i}`);
+      }
+      type = part.headers.get('Content-Type') || type;
+      blobs.push(await part.blob());
+    }
+    const file = new Blob(blobs, { type });
+    if (superseded()) return;
+    if (item.totalBytes && file.size !== item.totalBytes) {
+      await this.resetParts(item);
+      throw new Error(`Size mismatch: ${file.size} / ${item.totalBytes}`);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': type,
+      'Content-Length': String(file.size),
+      [VAULT_HEADERS.videoId]: item.id,
+      [VAULT_HEADERS.expectedLength]: String(item.totalBytes || file.size),
+      [VAULT_HEADERS.videoUpdated]: String(item.videoUpdatedAt || 0),
+      [VAULT_HEADERS.downloadedAt]: String(Date.now())
+    };
+    if (item.etag) headers[VAULT_HEADERS.etag] = item.etag;
+
+    const vault = await caches.open(OFFLINE_CACHE_NAME);
+    await vault.put(item.url, new Response(file, { headers }));
+    await this.removeOtherCopies(vault, item);
+    await this.deleteParts(item);
+    this.clearVaultIssue(id);
+    this.update(id, { status: 'done', bytesDownloaded: file.size, totalBytes: file.size });
+  }
+
+  // A stale/corrupt flag from the vault check (vaultIntegrity.ts) is settled by the new copy
+  private clearVaultIssue(id: string) {
+    const check = VaultCheckStore.load();
+    if (!check.issues[id]) return;
+    delete check.issues[id];
+    VaultCheckStore.save(check);
+  }
+
+  // The admin may have moved the video to a new URL: the copy under the old one is now redundant.
+  private async removeOtherCopies(vault: Cache, item: DownloadItem) {
+    const requests = await vault.keys();
+    for (const request of requests) {
+      if (request.url === new URL(item.url, location.href).toString()) continue;
+      const response = await vault.match(request);
+      if (response?.headers.get(VAULT_HEADERS.videoId) === item.id) await vault.delete(request);
+    }
+  }
+
+  private async resetParts(item: DownloadItem) {
+    await this.deleteParts(item);
+    this.update(item.id, { parts: 0, bytesDownloaded: 0 });
+  }
+
+  private async deleteParts(item: DownloadItem) {
+    try {
+      const parts = await caches.open(DOWNLOAD_PARTS_CACHE);
+      const keys = await parts.keys();
+      const prefix = `${PARTS_ORIGIN}/${encodeURIComponent(item.id)}/`;
+      await Promise.all(keys.filter(k => k.url.startsWith(prefix)).map(k => parts.delete(k)));
+    } catch (e) {}
+  }
+}
+
+export const DownloadManager = new DownloadManagerService();
+
+// Aggregate over what is actually transferring or waiting to, for the lion indicator.
+// Paused and failed items don't count: null once nothing is moving.
+export const getAggregateProgress = (items: DownloadItem[]): AggregateProgress | null => {
+  const pending = items.filter(i => i.status === 'queued' || i.status === 'downloading');
+  if (pending.length === 0) return null;
+  // Unknown sizes count as one chunk so a fresh item doesn't read as 100%.
+  const total = pending.reduce((s, i) => s + (i.totalBytes || Math.max(i.bytesDownloaded, CHUNK_SIZE)), 0);
+  const loaded = pending.reduce((s, i) => s + i.bytesDownloaded, 0);
+  return { active: pending.length, progress: total > 0 ? Math.min(100, (loaded / total) * 100) : 0 };
+};
+
+export const subscribeToDownloads = (listener: DownloadListener) => DownloadManager.subscribe(listener);
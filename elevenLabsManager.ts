@@ -1,14 +1,25 @@
 
 import { db, ensureAuth } from './firebaseConfig';
-import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { doc, getDoc } from "firebase/firestore";
+import { NarrationProviderId, MixerChannel } from './types';
+import { attachToMixer, setVoiceDucking } from './audioMixer';
+import { SYSTEM_CONFIG } from './TechSpecs';
+import {
+  NarrationProvider, NarrationHandle, NarrationCallbacks, parseNarrationOrder,
+  speechSynthesisProvider, mockNarrationProvider
+} from './narrationProviders';
+import {
+  StoredNarration, hashNarrationText, getCachedNarration, cacheNarration, fetchStoredNarration
+} from './narrationCache';
+import type { NarrationTimeline, NarrationAlignment } from './narrationCaptions';
 
-// Singleton to manage the audio instance globally
-let currentAudio: HTMLAudioElement | null = null;
+// Singleton to manage the narration globally, whichever provider is speaking
+let currentHandle: NarrationHandle | null = null;
+// Bumped by every play/stop: a narration still starting when it changes is dropped
+let narrationToken = 0;
 type AudioStateListener = (isPlaying: boolean) => void;
 let audioListeners: AudioStateListener[] = [];
 
-const VOICE_ID = "21m00Tcm4TlvDq8ikWAM"; // Rachel
-
 export const subscribeToAudioState = (listener: AudioStateListener) => {
   audioListeners.push(listener);
   return () => {
@@ -17,19 +28,29 @@ export const subscribeToAudioState = (listener: AudioStateListener) => {
 };
 
 const notifyListeners = (isPlaying: boolean) => {
+  // The video steps back while a voice speaks, whichever provider it is
+  setVoiceDucking(isPlaying);
   audioListeners.forEach(listener => listener(isPlaying));
 };
 
+// What the captions follow (narrationCaptions.ts); null when nothing is being narrated
+let currentTimeline: NarrationTimeline | null = null;
+
+export const getNarrationTimeline = () => currentTimeline;
+
 export const stopCurrentNarrative = () => {
-  if (currentAudio) {
-    currentAudio.pause();
-    currentAudio.currentTime = 0;
-    currentAudio = null;
+  narrationToken++;
+  currentTimeline = null;
+  if (currentHandle) {
+    const handle = currentHandle;
+    currentHandle = null;
+    handle.stop();
     notifyListeners(false);
   }
 };
 
 // --- Smart Key Management System ---
+// Admin-side checks of keys before they go into the Worker secret (ELEVENLABS_KEYS).
 
 export interface KeyStats {
     key: string;
@@ -95,130 +116,219 @@ export const optimizeKeyOrder = async (keys: string[]): Promise<string[]> => {
     return stats.map(s => s.key);
 };
 
-// Helper to get the currently active key
-const getActiveKeyData = async () => {
+// --- settings/api_config ---
+// Only the provider order and voice live there now; the keys stay in the narration Worker.
+const CONFIG_TTL_MS = 60 * 1000;
+let configCache: { data: any, at: number } | null = null;
+
+const readApiConfig = async (): Promise<any | null> => {
+  if (configCache && Date.now() - configCache.at < CONFIG_TTL_MS) return configCache.data;
+  // Offline: don't wait on Firestore, cached narration doesn't need fresh settings
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return configCache?.data ?? null;
   try {
     await ensureAuth();
-    const docRef = doc(db, "settings", "api_config");
-    const snapshot = await getDoc(docRef);
-    
-    if (!snapshot.exists()) return null;
-    
-    const data = snapshot.data();
-    if (!data) return null;
+    const snapshot = await getDoc(doc(db, "settings", "api_config"));
+    const data = snapshot.exists() ? snapshot.data() : null;
+    configCache = { data, at: Date.now() };
+    return data;
+  } catch (error) {
+    console.error("Failed to fetch narration config:", error);
+    return configCache?.data ?? null;
+  }
+};
 
-    const keys = data.elevenlabs_keys || [];
-    // We always try to use the first key because the list is presumed to be sorted by "optimizeKeyOrder"
-    // via the Admin Dashboard. However, if runtime failure happens, we iterate.
-    
-    let currentIndex = data.elevenlabs_index || 0;
+// --- ElevenLabs provider (through the narration Worker) ---
+// The Worker (workers/narrationProxy.ts) holds and rotates the keys and enforces daily
+// per-user, per-IP and global quotas; the browser only proves who it is with its Firebase ID token.
 
-    if (keys.length === 0) return null;
+const NARRATION_URL = process.env.NARRATION_URL || SYSTEM_CONFIG.cloudflare.narrationUrl;
 
-    if (currentIndex >= keys.length) currentIndex = 0;
+// Plays an MP3 blob; shared by fresh, cached and pre-recorded narration
+const playAudioBlob = (blob: Blob, callbacks: NarrationCallbacks, channel: MixerChannel): NarrationHandle => {
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio(url);
+  const detach = attachToMixer(audio, channel);
 
-    return { key: keys[currentIndex], index: currentIndex, totalKeys: keys.length, allKeys: keys };
-  } catch (error) {
-    console.error("Failed to fetch ElevenLabs config:", error);
-    return null;
-  }
+  let ended = false;
+  const finish = () => {
+    if (ended) return;
+    ended = true;
+    detach();
+    URL.revokeObjectURL(url);
+    callbacks.onEnd();
+  };
+  audio.onplay = () => callbacks.onStart();
+  audio.onended = finish;
+  audio.onpause = () => { if (!audio.ended) finish(); };
+  audio.play().catch(e => {
+    console.error("Audio Play Error:", e);
+    finish();
+  });
+
+  return {
+    stop: () => {
+      audio.pause();
+      audio.currentTime = 0;
+      finish();
+    },
+    currentTime: () => audio.currentTime,
+    duration: () => audio.duration
+  };
 };
 
-// Helper to switch to the next key in the pool locally (and update DB index)
-const switchToNextKey = async (oldIndex: number) => {
-  try {
-    const docRef = doc(db, "settings", "api_config");
-    await updateDoc(docRef, {
-        elevenlabs_index: oldIndex + 1
-    });
-    console.log(`ElevenLabs: Switched key index from ${oldIndex} to ${oldIndex + 1}`);
-  } catch (e) {
-    console.error("Failed to rotate ElevenLabs key:", e);
+/**
+ * يولّد الصوت عبر الـ Worker ويعيده كـ Blob (بدون تشغيل). لوحة التحكم تستخدمه لتسجيل narration_url.
+ */
+const requestNarration = async (text: string, voiceId: string | undefined, timestamps: boolean): Promise<Response> => {
+  const user = await ensureAuth();
+  if (!user) throw new Error("Narration proxy: not signed in");
+
+  const response = await fetch(NARRATION_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${await user.getIdToken()}`
+    },
+    body: JSON.stringify({ text, ...(voiceId ? { voice_id: voiceId } : {}), ...(timestamps ? { timestamps: true } : {}) })
+  });
+
+  if (!response.ok) {
+    // 429 = this user's daily quota, 503 = every key exhausted: both fall through to the next provider
+    const detail = await response.json().catch(() => null);
+    throw new Error(`Narration proxy: ${response.status} ${detail?.error || ''}`.trim());
   }
+  return response;
 };
 
-export const playNarrative = async (text: string, retryCount = 0) => {
-  // Prevent infinite loops
-  if (retryCount > 3) {
-      console.error("ElevenLabs: Max retries reached. Speech failed.");
-      notifyListeners(false);
-      return;
+export const synthesizeNarration = async (text: string, voiceId?: string): Promise<Blob> =>
+  (await requestNarration(text, voiceId, false)).blob();
+
+/**
+ * نفس الصوت مع توقيت كل حرف (لترجمة متزامنة). غير متدفق، لذلك للتسجيل من لوحة التحكم فقط.
+ */
+export const synthesizeNarrationWithTimestamps = async (text: string, voiceId?: string): Promise<{ audio: Blob, alignment: NarrationAlignment | null }> => {
+  const data: any = await (await requestNarration(text, voiceId, true)).json();
+  if (typeof data?.audio_base64 !== 'string') throw new Error("Narration proxy: no audio in timestamps response");
+  const bytes = Uint8Array.from(atob(data.audio_base64), c => c.charCodeAt(0));
+  const alignment = data.alignment && Array.isArray(data.alignment.characters) ? data.alignment : null;
+  return { audio: new Blob([bytes], { type: data.content_type || 'audio/mpeg' }), alignment };
+};
+
+export const getNarrationVoiceId = async (): Promise<string | undefined> =>
+  (await readApiConfig())?.elevenlabs_voice_id || undefined;
+
+// Same text, same voice: reuse what we already paid for (also offline), else synthesize and keep it
+export const getNarrationAudio = async (text: string): Promise<Blob> => {
+  const voiceId = await getNarrationVoiceId();
+  const cached = await getCachedNarration(text, voiceId);
+  if (cached) return cached;
+  const blob = await synthesizeNarration(text, voiceId);
+  cacheNarration(text, voiceId, blob);
+  return blob;
+};
+
+const elevenLabsProvider: NarrationProvider = {
+  id: 'elevenlabs',
+  label: 'ElevenLabs',
+  isSupported: () => typeof Audio !== 'undefined' && !!NARRATION_URL,
+  speak: async (text, callbacks, channel) => playAudioBlob(await getNarrationAudio(text), callbacks, channel)
+};
+
+// The file recorded from the admin dashboard (narration_url): no synthesis at all
+const storedNarrationProvider = (url: string): NarrationProvider => ({
+  id: 'elevenlabs',
+  label: 'ElevenLabs (مسجل)',
+  isSupported: () => typeof Audio !== 'undefined',
+  speak: async (_text, callbacks, channel) => {
+    const blob = await fetchStoredNarration(url);
+    if (!blob) throw new Error(`Stored narration unavailable: ${url}`);
+    return playAudioBlob(blob, callbacks, channel);
   }
+});
 
-  stopCurrentNarrative();
+const PROVIDERS: Record<NarrationProviderId, NarrationProvider> = {
+  elevenlabs: elevenLabsProvider,
+  speech: speechSynthesisProvider,
+  mock: mockNarrationProvider
+};
+
+export const getNarrationProviders = (): NarrationProvider[] => Object.values(PROVIDERS);
+
+const getNarrationOrder = async (): Promise<NarrationProviderId[]> =>
+  parseNarrationOrder((await readApiConfig())?.narration_providers);
+
+// Emoji out: no provider should try to pronounce them. Also the text narration_hash is computed from.
+export const prepareNarrationText = (text: string) =>
+  (text || '').replace(/([\u2700-\u27BF]|[\uE000-\uF8FF]|\uD83C[\uDC00-\uDFFF]|\uD83D[\uDC00-\uDFFF]|[\u2011-\u26FF]|\uD83E[\uDD10-\uDDFF])/g, '').trim();
 
-  if (!text || text.trim().length === 0) return;
+/**
+ * يقرأ النص بأول مزود ينجح حسب الترتيب في settings/api_config.
+ * إن كان للفيديو ملف سرد مسجل (stored) ومطابق للنص الحالي يُشغَّل قبل أي مزود.
+ * channel: مستوى الصوت الذي يُطبَّق من الخلاط ('avatar' لصوت العرّافة).
+ * subscribeToAudioState يبلّغ بالتشغيل والتوقف أياً كان المزود.
+ */
+export const playNarrative = async (text: string, stored?: StoredNarration, channel: MixerChannel = 'narration') => {
+  stopCurrentNarrative();
+  const token = narrationToken;
 
-  const cleanText = text.replace(/([\u2700-\u27BF]|[\uE000-\uF8FF]|\uD83C[\uDC00-\uDFFF]|\uD83D[\uDC00-\uDFFF]|[\u2011-\u26FF]|\uD83E[\uDD10-\uDDFF])/g, '').trim();
+  const cleanText = prepareNarrationText(text);
   if (cleanText.length === 0) return;
 
-  const keyData = await getActiveKeyData();
-  
-  if (!keyData || !keyData.key) {
-      console.warn("ElevenLabs: No keys found in settings/api_config");
-      notifyListeners(false);
-      return;
-  }
+  const candidates: NarrationProvider[] = [];
+  // A file recorded before the description was edited says the old text: skip it
+  const storedProvider = stored && (!stored.hash || stored.hash === await hashNarrationText(cleanText))
+    ? storedNarrationProvider(stored.url)
+    : null;
+  if (storedProvider) candidates.push(storedProvider);
+  (await getNarrationOrder()).forEach(id => candidates.push(PROVIDERS[id]));
 
-  try {
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${VOICE_ID}/stream`,
-      {
-        method: "POST",
-        headers: {
-          "Accept": "audio/mpeg",
-          "Content-Type": "application/json",
-          "xi-api-key": keyData.key,
-        },
-        body: JSON.stringify({
-          text: cleanText,
-          model_id: "eleven_multilingual_v2",
-          voice_settings: {
-            stability: 0.45,
-            similarity_boost: 0.8,
-            style: 0.6,
-            use_speaker_boost: true
+  for (const provider of candidates) {
+    if (token !== narrationToken) return;
+    const isStored = provider === storedProvider;
+    if (!provider.isSupported()) continue;
+
+    let handle: NarrationHandle | null = null;
+    let endedEarly = false;
+    try {
+      handle = await provider.speak(cleanText, {
+        onStart: () => { if (token === narrationToken) notifyListeners(true); },
+        onEnd: () => {
+          if (!handle) {
+            endedEarly = true;
+          } else if (currentHandle === handle) {
+            currentHandle = null;
+            currentTimeline = null;
+            notifyListeners(false);
           }
-        }),
-      }
-    );
-
-    if (!response.ok) {
-        // If Unauthorized (401) or Quota Exceeded (429 or sometimes 402)
-        if (response.status === 401 || response.status === 429 || response.status === 402) {
-            console.warn(`ElevenLabs Key Failed (Status ${response.status}). Rotating...`);
-            await switchToNextKey(keyData.index);
-            // Recursively retry with next key
-            await playNarrative(text, retryCount + 1);
-            return;
         }
-        throw new Error(`ElevenLabs API Error: ${response.status}`);
+      }, channel);
+    } catch (error) {
+      console.warn(`Narration: ${provider.label} unavailable, trying the next provider`, error);
+      continue;
     }
 
-    const blob = await response.blob();
-    const url = URL.createObjectURL(blob);
-    
-    currentAudio = new Audio(url);
-    
-    currentAudio.onplay = () => notifyListeners(true);
-    
-    currentAudio.play().catch(e => {
-        console.error("Audio Play Error:", e);
-        notifyListeners(false);
-    });
-    
-    currentAudio.onended = () => {
-        notifyListeners(false);
-        URL.revokeObjectURL(url);
-        currentAudio = null;
-    };
-    
-    currentAudio.onpause = () => {
-        if (currentAudio && !currentAudio.ended) notifyListeners(false);
+    // Stopped, or a newer narration started, while this one was loading
+    if (token !== narrationToken) {
+      handle.stop();
+      // It may have reported playing already; nothing newer is speaking, so undo that (and the ducking)
+      if (!currentHandle) notifyListeners(false);
+      return;
     }
-
-  } catch (error) {
-    console.error("TTS Error:", error);
-    notifyListeners(false);
+    if (endedEarly) {
+      notifyListeners(false);
+      return;
+    }
+    currentHandle = handle;
+    currentTimeline = {
+      source: text,
+      text: cleanText,
+      cues: isStored ? stored?.cues : undefined,
+      currentTime: handle.currentTime,
+      duration: handle.duration
+    };
+    return;
   }
+
+  console.error("Narration: no provider could speak. Speech failed.");
+  notifyListeners(false);
 };
@@ -0,0 +1,211 @@
+import { db } from './firebaseConfig';
+import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
+import { Video, UserInteractions } from './types';
+
+// -----------------------------------------------------------------------------
+// FEED RANKING PIPELINE
+// -----------------------------------------------------------------------------
+// كل "Scorer" دالة مستقلة ترجع قيمة بين 0 و 1 (أو -1 و 1 للتشابه).
+// الوزن النهائي لكل Scorer يأتي من Firestore: settings/feed_ranking
+// حتى يتحكم الأدمن في ترتيب الفيد بدون إعادة نشر التطبيق.
+// -----------------------------------------------------------------------------
+
+export type ScorerName = 'interest' | 'freshness' | 'trending' | 'similarity' | 'completion';
+
+export type RankingWeights = Record<ScorerName, number> & {
+  randomness: number; // Max random jitter added on top of the weighted sum
+};
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  interest: 50,
+  freshness: 15,
+  trending: 20,
+  similarity: 25,
+  completion: 15,
+  randomness: 10
+};
+
+export const RANKING_SETTINGS_DOC = { collection: "settings", id: "feed_ranking" };
+
+// Everything a scorer may need, precomputed once per feed generation.
+export interface RankingContext {
+  interests: string[];
+  now: number;
+  likedCategories: Map<string, number>;
+  dislikedCategories: Map<string, number>;
+  likedTags: Map<string, number>;
+  dislikedTags: Map<string, number>;
+  categoryCompletion: Map<string, number>; // Average watch progress (0-1) per category
+}
+
+export type Scorer = (video: Video, ctx: RankingContext) => number;
+
+export interface NamedScorer {
+  name: ScorerName;
+  score: Scorer;
+}
+
+// Firestore Timestamp, Date, ISO string or epoch — normalized to milliseconds.
+export const getCreatedAtMs = (video: Video): number => {
+  const raw = video.created_at;
+  if (!raw) return 0;
+  if (typeof raw.seconds === 'number') return raw.seconds * 1000;
+  const ms = new Date(raw).getTime();
+  return isNaN(ms) ? 0 : ms;
+};
+
+// --- SCORERS ---
+
+export const interestScorer: Scorer = (video, ctx) =>
+  ctx.interests.includes(video.category) ? 1 : 0;
+
+// Exponential decay: a video loses half of its freshness every 14 days.
+const FRESHNESS_HALF_LIFE_DAYS = 14;
+export const freshnessScorer: Scorer = (video, ctx) => {
+  const createdAt = getCreatedAtMs(video);
+  if (!createdAt) return 0;
+  const ageDays = Math.max(0, (ctx.now - createdAt) / (1000 * 60 * 60 * 24));
+  return Math.pow(0.5, ageDays / FRESHNESS_HALF_LIFE_DAYS);
+};
+
+export const trendingScorer: Scorer = (video) => video.is_trending ? 1 : 0;
+
+// Compares the video's category/tags with what the user liked vs disliked.
+export const similarityScorer: Scorer = (video, ctx) => {
+  const share = (counts: Map<string, number>, keys: string[]) => {
+    let total = 0;
+    counts.forEach(c => { total += c; });
+    if (total === 0) return 0;
+    const hits = keys.reduce((sum, k) => sum + (counts.get(k) || 0), 0);
+    return Math.min(1, hits / total);
+  };
+
+  const tags = video.tags || [];
+  const positive = (share(ctx.likedCategories, [video.category]) + share(ctx.likedTags, tags)) / 2;
+  const negative = (share(ctx.dislikedCategories, [video.category]) + share(ctx.dislikedTags, tags)) / 2;
+  return Math.max(-1, Math.min(1, positive - negative));
+};
+
+export const completionScorer: Scorer = (video, ctx) =>
+  ctx.categoryCompletion.get(video.category) || 0;
+
+export const DEFAULT_SCORERS: NamedScorer[] = [
+  { name: 'interest', score: interestScorer },
+  { name: 'freshness', score: freshnessScorer },
+  { name: 'trending', score: trendingScorer },
+  { name: 'similarity', score: similarityScorer },
+  { name: 'completion', score: completionScorer }
+];
+
+// --- CONTEXT ---
+
+const increment = (map: Map<string, number>, key: string | undefined) => {
+  if (!key) return;
+  map.set(key, (map.get(key) || 0) + 1);
+};
+
+export const buildRankingContext = (
+  allVideos: Video[],
+  interactions: UserInteractions,
+  interests: string[],
+  now: number = Date.now()
+): RankingContext => {
+  const byId = new Map(allVideos.map(v => [v.id, v]));
+
+  const likedCategories = new Map<string, number>();
+  const likedTags = new Map<string, number>();
+  interactions.likedIds.forEach(id => {
+    const v = byId.get(id);
+    if (!v) return;
+    increment(likedCategories, v.category);
+    (v.tags || []).forEach(t => increment(likedTags, t));
+  });
+
+  const dislikedCategories = new Map<string, number>();
+  const dislikedTags = new Map<string, number>();
+  interactions.dislikedIds.forEach(id => {
+    const v = byId.get(id);
+    if (!v) return;
+    increment(dislikedCategories, v.category);
+    (v.tags || []).forEach(t => increment(dislikedTags, t));
+  });
+
+  const progressSums = new Map<string, { sum: number, count: number }>();
+  interactions.watchHistory.forEach(h => {
+    const v = byId.get(h.id);
+    if (!v) return;
+    const entry = progressSums.get(v.category) || { sum: 0, count: 0 };
+    entry.sum += Math.max(0, Math.min(1, h.progress || 0));
+    entry.count += 1;
+    progressSums.set(v.category, entry);
+  });
+  const categoryCompletion = new Map<string, number>();
+  progressSums.forEach((e, cat) => categoryCompletion.set(cat, e.sum / e.count));
+
+  return { interests, now, likedCategories, dislikedCategories, likedTags, dislikedTags, categoryCompletion };
+};
+
+// --- PIPELINE ---
+
+export const scoreVideo = (
+  video: Video,
+  ctx: RankingContext,
+  weights: RankingWeights,
+  scorers: NamedScorer[] = DEFAULT_SCORERS,
+  random: () => number = Math.random
+): number => {
+  let score = random() * weights.randomness;
+  for (const scorer of scorers) {
+    const weight = weights[scorer.name] || 0;
+    if (weight === 0) continue;
+    score += weight * scorer.score(video, ctx);
+  }
+  return score;
+};
+
+export const rankVideos = (
+  videos: Video[],
+  ctx: RankingContext,
+  weights: RankingWeights,
+  scorers: NamedScorer[] = DEFAULT_SCORERS,
+  random: () => number = Math.random
+): Video[] => {
+  return videos
+    .map(video => ({ video, score: scoreVideo(video, ctx, weights, scorers, random) }))
+    .sort((a, b) => b.score - a.score)
+    .map(s => s.video);
+};
+
+// --- REMOTE WEIGHTS (Admin Tunable) ---
+
+// Keeps only known, finite numeric fields; anything else falls back to the default.
+export const normalizeRankingWeights = (raw: any): RankingWeights => {
+  const result = { ...DEFAULT_RANKING_WEIGHTS };
+  if (!raw || typeof raw !== 'object') return result;
+  (Object.keys(DEFAULT_RANKING_WEIGHTS) as (keyof RankingWeights)[]).forEach(key => {
+    const value = Number(raw[key]);
+    if (raw[key] !== undefined && raw[key] !== null && isFinite(value)) {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+export const fetchRankingWeights = async (): Promise<RankingWeights> => {
+  try {
+    const snap = await getDoc(doc(db, RANKING_SETTINGS_DOC.collection, RANKING_SETTINGS_DOC.id));
+    if (snap.exists()) {
+      return normalizeRankingWeights(snap.data()?.weights);
+    }
+  } catch (e) {
+    console.warn("Failed to fetch feed ranking weights, using defaults.", e);
+  }
+  return { ...DEFAULT_RANKING_WEIGHTS };
+};
+
+export const saveRankingWeights = async (weights: RankingWeights) => {
+  await setDoc(doc(db, RANKING_SETTINGS_DOC.collection, RANKING_SETTINGS_DOC.id), {
+    weights: normalizeRankingWeights(weights),
+    updated_at: serverTimestamp()
+  }, { merge: true });
+};
@@ -0,0 +1,246 @@
+import { Video, VideoRendition } from './types';
+
+// -----------------------------------------------------------------------------
+// HLS / ADAPTIVE BITRATE (LONG VIDEOS)
+// -----------------------------------------------------------------------------
+// إن كان للفيديو stream_url (m3u8): Safari/iOS يشغله أصلياً، وباقي المتصفحات عبر
+// hls.js (MSE) يُحمّل عند الحاجة فقط من نفس CDN الخاص بالـ importmap.
+// اختيار الجودة: تلقائي (ABR) أو جودة ثابتة. أي فشل => رجوع إلى MP4 العادي.
+// الفيديوهات المحملة في الخزنة تبقى MP4 لأن sw.js يقدمها بدون نت.
+// -----------------------------------------------------------------------------
+
+const HLS_JS_URL = 'https://esm.sh/hls.js@1.5.20';
+const HLS_MIME = 'application/vnd.apple.mpegurl';
+
+export type StreamMode = 'native' | 'mse' | 'progressive';
+
+export interface QualityLevel {
+  index: number;        // -1 = auto
+  label: string;        // "720p", "تلقائي"
+  height: number;
+  bandwidth: number;
+}
+
+export interface StreamController {
+  mode: StreamMode;
+  levels: QualityLevel[];       // Empty when there is nothing to choose
+  currentLevel: number;         // -1 = auto
+  setLevel: (index: number) => void;
+  // Switches to the MP4 after a playback error. False when already on MP4 (a real error).
+  fallbackToProgressive: () => boolean;
+  destroy: () => void;
+}
+
+export const AUTO_LEVEL: QualityLevel = { index: -1, label: 'تلقائي', height: 0, bandwidth: 0 };
+
+// The parts of hls.js used here (it is loaded from the CDN at runtime, so no bundled types)
+interface HlsLevelLike {
+  height?: number;
+  bitrate?: number;
+}
+
+interface HlsLike {
+  levels: HlsLevelLike[];
+  nextLevel: number;
+  currentLevel: number;
+  on: <T>(event: string, handler: (event: string, data: T) => void) => void;
+  loadSource: (url: string) => void;
+  attachMedia: (el: HTMLMediaElement) => void;
+  destroy: () => void;
+}
+
+interface HlsStaticLike {
+  new (config: { capLevelToPlayerSize?: boolean, startLevel?: number }): HlsLike;
+  isSupported: () => boolean;
+  Events: { MANIFEST_PARSED: string, ERROR: string };
+}
+
+interface HlsManifestParsedData {
+  levels?: HlsLevelLike[];
+}
+
+interface HlsErrorData {
+  fatal?: boolean;
+  details?: string;
+}
+
+// --- MANIFEST ---
+
+const parseAttributes = (line: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const re = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(line))) attrs[match[1]] = match[2].replace(/^"|"$/g, '');
+  return attrs;
+};
+
+// Variant streams of a master playlist, highest first. A media playlist (no variants) gives [].
+export const parseMasterPlaylist = (text: string, baseUrl: string): VideoRendition[] => {
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+  const renditions: VideoRendition[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+    const attrs = parseAttributes(lines[i].slice('#EXT-X-STREAM-INF:'.length));
+    const uri = lines.slice(i + 1).find(l => l && !l.startsWith('#'));
+    if (!uri) continue;
+    const [width, height] = (attrs.RESOLUTION || '').split('x').map(Number);
+    const rendition: VideoRendition = {
+      height: height || 0,
+      bandwidth: Number(attrs.BANDWIDTH) || 0,
+      url: new URL(uri, baseUrl).toString()
+    };
+    if (width) rendition.width = width;
+    renditions.push(rendition);
+  }
+  return renditions.sort((a, b) => (b.height - a.height) || (b.bandwidth - a.bandwidth));
+};
+
+export const fetchRenditions = async (streamUrl: string): Promise<VideoRendition[]> => {
+  const response = await fetch(streamUrl, { cache: 'no-store' });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const text = await response.text();
+  if (!text.startsWith('#EXTM3U')) throw new Error('Not an HLS playlist');
+  return parseMasterPlaylist(text, response.url || streamUrl);
+};
+
+const renditionLabel = (r: { height: number, bandwidth: number }) =>
+  r.height ? `${r.height}p` : `${Math.round(r.bandwidth / 1000)}kbps`;
+
+// --- PLAYBACK ---
+
+export const canPlayNativeHls = (el: HTMLVideoElement) => !!el.canPlayType(HLS_MIME);
+
+export const isMseSupported = () =>
+  typeof MediaSource !== 'undefined' && !!MediaSource.isTypeSupported?.('video/mp4; codecs="avc1.42E01E,mp4a.40.2"');
+
+let hlsModule: Promise<HlsStaticLike> | null = null;
+const loadHlsJs = () => {
+  if (!hlsModule) {
+    hlsModule = import(/* @vite-ignore */ HLS_JS_URL).then(m => m.default || m).catch(e => {
+      hlsModule = null;
+      throw e;
+    });
+  }
+  return hlsModule;
+};
+
+// Keeps the position and play state across a source swap (quality change, fallback).
+const swapSource = (el: HTMLVideoElement, src: string, at = el.currentTime, wasPlaying = !el.paused) => {
+  el.src = src;
+  if (at > 0) {
+    el.addEventListener('loadedmetadata', () => { el.currentTime = at; }, { once: true });
+  }
+  if (wasPlaying) el.play().catch(() => {});
+};
+
+const progressiveController = (el: HTMLVideoElement, src: string): StreamController => {
+  if (el.getAttribute('src') !== src) el.src = src;
+  return {
+    mode: 'progressive',
+    levels: [],
+    currentLevel: -1,
+    setLevel: () => {},
+    fallbackToProgressive: () => false,
+    destroy: () => {}
+  };
+};
+
+/**
+ * يربط مصدر الفيديو بالعنصر: HLS إن أمكن، وإلا MP4.
+ * onLevels يُستدعى عندما تُعرف الجودات (مع hls.js تصل بعد تحميل الـ manifest).
+ */
+export const attachVideoSource = async (
+  el: HTMLVideoElement,
+  video: Video,
+  progressiveSrc: string,
+  options: { preferProgressive?: boolean, onLevels?: (levels: QualityLevel[]) => void } = {}
+): Promise<StreamController> => {
+  const streamUrl = video.stream_url?.trim();
+  if (!streamUrl || options.preferProgressive) {
+    return progressiveController(el, progressiveSrc);
+  }
+
+  // Safari / iOS: the browser does ABR itself; picking a quality means loading that variant playlist.
+  if (canPlayNativeHls(el)) {
+    const renditions = video.renditions || [];
+    const levels = renditions.map((r, index) => ({ index, label: renditionLabel(r), height: r.height, bandwidth: r.bandwidth }));
+    let fellBack = false;
+    el.src = streamUrl;
+    const controller: StreamController = {
+      mode: 'native',
+      levels,
+      currentLevel: -1,
+      setLevel: (index) => {
+        if (fellBack) return;
+        controller.currentLevel = index;
+        swapSource(el, index >= 0 && renditions[index] ? renditions[index].url : streamUrl);
+      },
+      fallbackToProgressive: () => {
+        if (fellBack || !progressiveSrc) return false;
+        fellBack = true;
+        console.warn("Native HLS failed, falling back to MP4");
+        swapSource(el, progressiveSrc);
+        return true;
+      },
+      destroy: () => {}
+    };
+    options.onLevels?.(levels);
+    return controller;
+  }
+
+  if (!isMseSupported()) return progressiveController(el, progressiveSrc);
+
+  let Hls: HlsStaticLike;
+  try {
+    Hls = await loadHlsJs();
+  } catch (e) {
+    console.warn("hls.js unavailable, playing MP4", e);
+    return progressiveController(el, progressiveSrc);
+  }
+  if (!Hls?.isSupported?.()) return progressiveController(el, progressiveSrc);
+
+  let hls: HlsLike | null = new Hls({ capLevelToPlayerSize: true, startLevel: -1 });
+  let fellBack = false;
+  const controller: StreamController = {
+    mode: 'mse',
+    levels: [],
+    currentLevel: -1,
+    setLevel: (index) => {
+      if (!hls) return;
+      controller.currentLevel = index;
+      // nextLevel switches at the next fragment instead of flushing the buffer
+      hls.nextLevel = index;
+      if (index === -1) hls.currentLevel = -1;
+    },
+    fallbackToProgressive: () => {
+      if (fellBack || !progressiveSrc) return false;
+      fellBack = true;
+      // Read before destroy(): detaching MSE resets the element
+      const at = el.currentTime;
+      const wasPlaying = !el.paused;
+      hls?.destroy();
+      hls = null;
+      swapSource(el, progressiveSrc, at, wasPlaying);
+      return true;
+    },
+    destroy: () => {
+      hls?.destroy();
+      hls = null;
+    }
+  };
+
+  hls.on<HlsManifestParsedData>(Hls.Events.MANIFEST_PARSED, (_, data) => {
+    controller.levels = (data?.levels || hls?.levels || []).map((l, index) => ({
+      index, label: renditionLabel({ height: l.height || 0, bandwidth: l.bitrate || 0 }), height: l.height || 0, bandwidth: l.bitrate || 0
+    })).sort((a, b) => b.height - a.height || b.bandwidth - a.bandwidth);
+    options.onLevels?.(controller.levels);
+  });
+  hls.on<HlsErrorData>(Hls.Events.ERROR, (_, data) => {
+    if (!data?.fatal) return;
+    console.warn("HLS fatal error, falling back to MP4", data?.details);
+    controller.fallbackToProgressive();
+  });
+  hls.loadSource(streamUrl);
+  hls.attachMedia(el);
+  return controller;
+};
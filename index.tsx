@@ -2,6 +2,7 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerOfflineServiceWorker } from './offlineManager';
 
 interface ErrorBoundaryProps {
   children?: ReactNode;
@@ -67,6 +68,8 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
   }
 }
 
+registerOfflineServiceWorker();
+
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error("Root element not found");
 
@@ -0,0 +1,180 @@
+import { db } from './firebaseConfig';
+import { doc, getDoc, runTransaction, serverTimestamp } from "firebase/firestore";
+import { UserInteractions, WatchHistoryEntry, ListEdit } from './types';
+import { sanitizeInteractions } from './persistence';
+
+// -----------------------------------------------------------------------------
+// CROSS-DEVICE SYNC FOR UserInteractions
+// -----------------------------------------------------------------------------
+// نسخة من مكتبة المستخدم (الإعجابات، المحفوظات، سجل المشاهدة...) داخل users/{uid}
+// في الحقل interactions حتى لا تضيع عند إعادة التثبيت أو فتح التطبيق من جهاز آخر.
+// الدمج: اتحاد (Union) للقوائم، وأحدث موضع مشاهدة لكل فيديو في سجل المشاهدة.
+// الحذف (إلغاء إعجاب/حفظ) يُسجَّل كـ tombstone في listEdits حتى لا يعيده جهاز آخر،
+// والرفع يقرأ النسخة البعيدة ويدمج داخل transaction فلا تضيع تغييرات جهاز آخر.
+// -----------------------------------------------------------------------------
+
+const PUSH_DELAY_MS = 3000;
+// Edits older than this are dropped; a device offline for longer may bring back an old removal
+const LIST_EDIT_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+
+type IdListField = 'likedIds' | 'dislikedIds' | 'savedIds' | 'savedCategoryNames' | 'downloadedIds';
+const ID_LIST_FIELDS: IdListField[] = ['likedIds', 'dislikedIds', 'savedIds', 'savedCategoryNames', 'downloadedIds'];
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+const editKey = (field: IdListField, id: string) => `${field}:${id}`;
+
+const pruneEdits = (edits: Record<string, ListEdit>, now: number = Date.now()) => {
+  Object.keys(edits).forEach(key => { if (now - edits[key].at > LIST_EDIT_TTL_MS) delete edits[key]; });
+  return edits;
+};
+
+// Latest edit per key
+const mergeListEdits = (a: Record<string, ListEdit> = {}, b: Record<string, ListEdit> = {}) => {
+  const result = { ...a };
+  Object.entries(b).forEach(([key, edit]) => {
+    if (!result[key] || edit.at > result[key].at) result[key] = edit;
+  });
+  return pruneEdits(result);
+};
+
+/**
+ * يسجل ما أُضيف أو حُذف من القوائم بين نسختين محليتين (كل تعديل يمر من هنا في App).
+ */
+export const recordListEdits = (prev: UserInteractions, next: UserInteractions): UserInteractions => {
+  const now = Date.now();
+  const edits = { ...(next.listEdits || prev.listEdits || {}) };
+  let changed = false;
+  ID_LIST_FIELDS.forEach(field => {
+    const before = new Set(prev[field] || []);
+    const after = new Set(next[field] || []);
+    const mark = (id: string, present: boolean) => {
+      edits[editKey(field, id)] = { present, at: now };
+      changed = true;
+    };
+    after.forEach(id => { if (!before.has(id)) mark(id, true); });
+    before.forEach(id => { if (!after.has(id)) mark(id, false); });
+  });
+  // Updaters that build a fresh object would otherwise drop the edits
+  if (!changed) return next.listEdits || !prev.listEdits ? next : { ...next, listEdits: prev.listEdits };
+  return { ...next, listEdits: pruneEdits(edits, now) };
+};
+
+// Progress is the furthest either device got (a rewatch from the start must not undo a finish);
+// the resume position and its timestamp come from the most recently updated entry, since that is
+// where the user actually stopped. Entries from older versions without updatedAt count as older.
+const mergeEntry = (a: WatchHistoryEntry, b: WatchHistoryEntry): WatchHistoryEntry => {
+  const newer = (a.updatedAt || 0) === (b.updatedAt || 0)
+    ? (b.progress > a.progress ? b : a)
+    : ((b.updatedAt || 0) > (a.updatedAt || 0) ? b : a);
+  return { ...newer, progress: Math.max(a.progress, b.progress) };
+};
+
+// Keeps one entry per video. Local order is kept, remote-only entries go first (older).
+const mergeWatchHistory = (local: WatchHistoryEntry[] = [], remote: WatchHistoryEntry[] = []): WatchHistoryEntry[] => {
+  const remoteById = new Map(remote.map(h => [h.id, h]));
+  const localIds = new Set(local.map(h => h.id));
+
+  const remoteOnly = remote.filter(h => !localIds.has(h.id));
+  const merged = local.map(h => {
+    const other = remoteById.get(h.id);
+    return other ? mergeEntry(h, other) : h;
+  });
+  return [...remoteOnly, ...merged];
+};
+
+export interface MergeOptions {
+  // Downloads are files in this device's Cache Storage; remote ids must not mark them as available here.
+  keepLocalDownloads?: boolean;
+}
+
+export const mergeInteractions = (
+  local: UserInteractions,
+  remote: UserInteractions,
+  options: MergeOptions = {}
+): UserInteractions => {
+  const result = { ...local };
+  const edits = mergeListEdits(local.listEdits, remote.listEdits);
+  ID_LIST_FIELDS.forEach(field => {
+    // Union, minus what was removed after it was last added (on either device)
+    result[field] = union(local[field], remote[field]).filter(id => edits[editKey(field, id)]?.present !== false);
+  });
+  result.listEdits = edits;
+  if (options.keepLocalDownloads) {
+    result.downloadedIds = [...(local.downloadedIds || [])];
+  }
+  result.watchHistory = mergeWatchHistory(local.watchHistory, remote.watchHistory);
+
+  // A video can't be both liked and disliked; the local choice wins, otherwise the dislike does.
+  const localLiked = new Set(local.likedIds || []);
+  const disliked = new Set(result.dislikedIds);
+  result.likedIds = result.likedIds.filter(id => !disliked.has(id) || localLiked.has(id));
+  const liked = new Set(result.likedIds);
+  result.dislikedIds = result.dislikedIds.filter(id => !liked.has(id));
+  return result;
+};
+
+// 'missing' = no remote library yet (first device); 'failed' = unknown, so nothing may be pushed over it
+export type RemoteInteractions =
+  | { status: 'found', interactions: UserInteractions }
+  | { status: 'missing' }
+  | { status: 'failed' };
+
+// Same per-field validation as the local copy, so a partially written doc can't break the app
+const remoteFromData = (data: any): UserInteractions | null =>
+  data?.interactions ? sanitizeInteractions(data.interactions) : null;
+
+export const pullRemoteInteractions = async (uid: string): Promise<RemoteInteractions> => {
+  try {
+    // Offline, getDoc answers from the local cache; a cache miss must not look like "no library"
+    const snap = await getDoc(doc(db, "users", uid));
+    if (snap.metadata.fromCache) return { status: 'failed' };
+    const interactions = snap.exists() ? remoteFromData(snap.data()) : null;
+    return interactions ? { status: 'found', interactions } : { status: 'missing' };
+  } catch (e) {
+    console.warn("Interaction sync: pull failed", e);
+    return { status: 'failed' };
+  }
+};
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingPush: { uid: string, interactions: UserInteractions } | null = null;
+
+export const flushInteractionPush = async () => {
+  if (pushTimer) {
+    clearTimeout(pushTimer);
+    pushTimer = null;
+  }
+  if (!pendingPush) return;
+  const push = pendingPush;
+  pendingPush = null;
+  const ref = doc(db, "users", push.uid);
+  try {
+    // Read-merge-write: changes another device pushed since our pull are kept
+    await runTransaction(db, async tx => {
+      const snap = await tx.get(ref);
+      const remote = snap.exists() ? remoteFromData(snap.data()) : null;
+      tx.set(ref, {
+        interactions: remote ? mergeInteractions(push.interactions, remote) : push.interactions,
+        interactions_updated_at: serverTimestamp()
+      }, { merge: true });
+    });
+  } catch (e) {
+    console.warn("Interaction sync: push failed", e);
+    // Retried with the next change or when the app goes to the background
+    if (!pendingPush) pendingPush = push;
+  }
+};
+
+// Debounced: rapid likes/progress updates end up as one write.
+export const scheduleInteractionPush = (uid: string, interactions: UserInteractions) => {
+  pendingPush = { uid, interactions };
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => { flushInteractionPush(); }, PUSH_DELAY_MS);
+};
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushInteractionPush();
+  });
+}
@@ -0,0 +1,208 @@
+import { Video, CaptionCue } from './types';
+import { NarrationUsageStore } from './persistence';
+
+// -----------------------------------------------------------------------------
+// NARRATION AUDIO CACHE
+// -----------------------------------------------------------------------------
+// كل صوت يُولَّد من ElevenLabs يُحفظ في Cache Storage بمفتاح (النص + الصوت)، فتكرار
+// نفس الـ Short لا يستهلك أحرفاً جديدة ويعمل بدون نت. الملفات المسجلة مسبقاً على R2
+// (narration_url) تُحفظ في نفس الكاش بعنوانها. الحجم محدود، والأقدم استخداماً يُحذف أولاً.
+// -----------------------------------------------------------------------------
+
+export const NARRATION_CACHE_NAME = 'rooh-narration-v1';
+// سقف ملفات السرد: عند تجاوزه نحذف الأقدم استخداماً (LRU)
+export const MAX_NARRATION_BYTES = 25 * 1024 * 1024;
+
+// Synthetic path: cache keys must be URLs, but nothing is ever fetched from it
+const SYNTH_PREFIX = '/__narration/';
+
+// A pre-recorded file on the video doc
+export interface StoredNarration {
+  url: string;
+  hash?: string;          // Text it was recorded from (hashNarrationText); absent on old docs
+  cues?: CaptionCue[];    // Caption timing aligned with this file
+}
+
+export const storedNarrationOf = (video: Video): StoredNarration | undefined =>
+  video.narration_url ? { url: video.narration_url, hash: video.narration_hash, cues: video.narration_cues } : undefined;
+
+// FNV-1a, for the rare context without crypto.subtle (plain http on a LAN IP)
+const fallbackHash = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv${(hash >>> 0).toString(16)}`;
+};
+
+export const hashNarrationText = async (text: string): Promise<string> => {
+  const normalized = text.trim().replace(/\s+/g, ' ');
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(normalized);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest).slice(0, 16)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const synthesizedKey = async (text: string, voiceId?: string) =>
+  new URL(`${SYNTH_PREFIX}${voiceId || 'default'}/${await hashNarrationText(text)}`, location.origin).href;
+
+const isAvailable = () => typeof caches !== 'undefined';
+
+// --- LRU BOOKKEEPING (same scheme as smartCache.ts) ---
+const narrationUsage = NarrationUsageStore.load();
+
+const touchEntry = (key: string, size?: number) => {
+  const previous = narrationUsage[key];
+  narrationUsage[key] = { lastUsed: Date.now(), size: size ?? previous?.size ?? 0 };
+  NarrationUsageStore.save(narrationUsage);
+};
+
+const sizeOf = async (cache: Cache, request: Request): Promise<number> => {
+  const known = narrationUsage[request.url]?.size;
+  if (known) return known;
+  const response = await cache.match(request);
+  if (!response) return 0;
+  const header = Number(response.headers.get('Content-Length'));
+  return header > 0 ? header : (await response.blob()).size;
+};
+
+const runTrim = async (maxBytes: number): Promise<number> => {
+  const cache = await caches.open(NARRATION_CACHE_NAME);
+  const requests = await cache.keys();
+  const entries = await Promise.all(requests.map(async request => ({
+    request,
+    size: await sizeOf(cache, request),
+    lastUsed: narrationUsage[request.url]?.lastUsed || 0
+  })));
+
+  const cachedUrls = new Set(requests.map(r => r.url));
+  Object.keys(narrationUsage).forEach(url => { if (!cachedUrls.has(url)) delete narrationUsage[url]; });
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  let freed = 0;
+  for (const entry of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= maxBytes) break;
+    await cache.delete(entry.request);
+    delete narrationUsage[entry.request.url];
+    total -= entry.size;
+    freed += entry.size;
+  }
+  NarrationUsageStore.save(narrationUsage);
+  return freed;
+};
+
+let trimQueue: Promise<number> = Promise.resolve(0);
+
+export const trimNarrationCache = (maxBytes: number = MAX_NARRATION_BYTES): Promise<number> => {
+  if (!isAvailable()) return Promise.resolve(0);
+  trimQueue = trimQueue.catch(() => 0).then(() => runTrim(maxBytes)).catch(() => 0);
+  return trimQueue;
+};
+
+export const clearNarrationCache = () => trimNarrationCache(0);
+
+export const getNarrationCacheUsage = async (): Promise<number> => {
+  if (!isAvailable()) return 0;
+  try {
+    const cache = await caches.open(NARRATION_CACHE_NAME);
+    const requests = await cache.keys();
+    const sizes = await Promise.all(requests.map(r => sizeOf(cache, r)));
+    return sizes.reduce((sum, size) => sum + size, 0);
+  } catch (e) {
+    return 0;
+  }
+};
+
+const readEntry = async (key: string): Promise<Blob | null> => {
+  if (!isAvailable()) return null;
+  try {
+    const cache = await caches.open(NARRATION_CACHE_NAME);
+    const response = await cache.match(key);
+    if (!response) return null;
+    touchEntry(key);
+    return await response.blob();
+  } catch (e) {
+    return null;
+  }
+};
+
+const writeEntry = async (key: string, blob: Blob) => {
+  if (!isAvailable() || blob.size === 0) return;
+  try {
+    const cache = await caches.open(NARRATION_CACHE_NAME);
+    await cache.put(key, new Response(blob, {
+      headers: { 'Content-Type': blob.type || 'audio/mpeg', 'Content-Length': blob.size.toString() }
+    }));
+    touchEntry(key, blob.size);
+    trimNarrationCache();
+  } catch (e: any) {
+    // Disk full: narration is the first thing we can do without
+    if (e?.name === 'QuotaExceededError') trimNarrationCache(MAX_NARRATION_BYTES / 2);
+    else console.warn("Narration cache write failed", e);
+  }
+};
+
+// --- SYNTHESIZED AUDIO (keyed by text + voice) ---
+
+// Entries for this text under any voice
+const keysForText = async (cache: Cache, text: string): Promise<Request[]> => {
+  const suffix = `/${await hashNarrationText(text)}`;
+  return (await cache.keys()).filter(request => {
+    const path = new URL(request.url).pathname;
+    return path.startsWith(SYNTH_PREFIX) && path.endsWith(suffix);
+  });
+};
+
+// voiceId undefined (settings unreachable, e.g. offline): any voice beats silence
+export const getCachedNarration = async (text: string, voiceId?: string): Promise<Blob | null> => {
+  if (!isAvailable()) return null;
+  const exact = await readEntry(await synthesizedKey(text, voiceId));
+  if (exact || voiceId) return exact;
+  try {
+    const [any] = await keysForText(await caches.open(NARRATION_CACHE_NAME), text);
+    return any ? readEntry(any.url) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const cacheNarration = async (text: string, voiceId: string | undefined, blob: Blob) => {
+  if (isAvailable()) await writeEntry(await synthesizedKey(text, voiceId), blob);
+};
+
+/**
+ * يحذف الصوت المحفوظ لهذا النص بكل الأصوات (بعد تعديل الوصف أو إعادة التسجيل من لوحة التحكم).
+ */
+export const forgetNarration = async (text: string) => {
+  if (!isAvailable()) return;
+  try {
+    const cache = await caches.open(NARRATION_CACHE_NAME);
+    for (const request of await keysForText(cache, text)) {
+      await cache.delete(request);
+      delete narrationUsage[request.url];
+    }
+    NarrationUsageStore.save(narrationUsage);
+  } catch (e) {
+    console.warn("Narration cache cleanup failed", e);
+  }
+};
+
+// --- PRE-RECORDED FILES (narration_url on R2) ---
+
+// Cache first, then the network; null when neither has it (offline and never played)
+export const fetchStoredNarration = async (url: string): Promise<Blob | null> => {
+  const cached = await readEntry(url);
+  if (cached) return cached;
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    await writeEntry(url, blob);
+    return blob;
+  } catch (e) {
+    return null;
+  }
+};
+
+// The admin just uploaded it: no need to download it back
+export const primeStoredNarration = (url: string, blob: Blob) => writeEntry(url, blob);
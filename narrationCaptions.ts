@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { CaptionCue, CaptionSettings, CaptionSize } from './types';
+import { CaptionSettingsStore } from './persistence';
+import { getNarrationTimeline } from './elevenLabsManager';
+
+// -----------------------------------------------------------------------------
+// NARRATION CAPTIONS
+// -----------------------------------------------------------------------------
+// الترجمة تتبع صوت الراوي الفعلي بدل مؤقت ثابت:
+// - ملف مسجل من لوحة التحكم: توقيت كل حرف من ElevenLabs (alignment) محفوظ كـ narration_cues.
+// - صوت يُولَّد عند المشاهدة: توقيت تقديري موزع على مدة الصوت الحقيقية.
+// - صوت المتصفح: تقديري، ويُصحَّح مع كل كلمة ينطقها (onboundary).
+// بدون راوٍ تعمل الترجمة بسرعة قراءة تقديرية كما كانت.
+// -----------------------------------------------------------------------------
+
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// ElevenLabs /with-timestamps response (per character)
+export interface NarrationAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+// What is being narrated right now, and how far along it is
+export interface NarrationTimeline {
+  source: string;              // Text as passed to playNarrative (before emoji cleanup)
+  text: string;                // Text actually spoken
+  cues?: CaptionCue[];         // Aligned timing, when known
+  currentTime: () => number;   // Seconds since the narration started
+  duration: () => number;      // Seconds; NaN until the audio metadata is in
+}
+
+const MAX_WORDS_PER_CUE = 4;
+// Arabic narration at the voice settings we use: about 14 characters per second
+const SECONDS_PER_CHAR = 0.07;
+// Extra weight (in characters) for the pause after punctuation
+const PAUSE_WEIGHT = 4;
+const PAUSE_AFTER = /[.!?؟،,:;…]$/;
+// How long captions wait for a narration that is expected to start
+export const NARRATION_WAIT_MS = 4000;
+
+const splitWords = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+
+export const estimatedDuration = (text: string) => Math.max(1, text.replace(/\s+/g, ' ').trim().length * SECONDS_PER_CHAR);
+
+// Spread the words over the duration by length, leaving room for pauses at punctuation
+export const estimateWordTimings = (text: string, duration: number): WordTiming[] => {
+  const words = splitWords(text);
+  const weights = words.map(w => w.length + 1 + (PAUSE_AFTER.test(w) ? PAUSE_WEIGHT : 0));
+  const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+  let cursor = 0;
+  return words.map((word, i) => {
+    const length = (weights[i] / total) * duration;
+    const timing = { word, start: cursor, end: cursor + length };
+    cursor += length;
+    return timing;
+  });
+};
+
+export const wordsFromAlignment = (alignment: NarrationAlignment): WordTiming[] => {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+  alignment.characters.forEach((char, i) => {
+    if (/\s/.test(char)) {
+      if (current) words.push(current);
+      current = null;
+      return;
+    }
+    const start = alignment.character_start_times_seconds[i] ?? 0;
+    const end = alignment.character_end_times_seconds[i] ?? start;
+    if (!current) current = { word: char, start, end };
+    else {
+      current.word += char;
+      current.end = end;
+    }
+  });
+  if (current) words.push(current);
+  return words;
+};
+
+// Groups of up to four words, closing early at punctuation so a cue reads as a phrase
+export const cuesFromWords = (words: WordTiming[], maxWords: number = MAX_WORDS_PER_CUE): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  let group: WordTiming[] = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    cues.push({ start: group[0].start, end: group[group.length - 1].end, text: group.map(w => w.word).join(' ') });
+    group = [];
+  };
+  words.forEach(word => {
+    group.push(word);
+    if (group.length >= maxWords || PAUSE_AFTER.test(word.word)) flush();
+  });
+  flush();
+  // Hold each phrase through the pause after it, so the caption doesn't blink between words
+  cues.forEach((cue, i) => { if (cues[i + 1]) cue.end = Math.max(cue.end, cues[i + 1].start); });
+  return cues;
+};
+
+const estimateCache = new Map<string, CaptionCue[]>();
+
+export const estimateCues = (text: string, duration: number = estimatedDuration(text)): CaptionCue[] => {
+  const key = `${duration.toFixed(1)}|${text}`;
+  let cues = estimateCache.get(key);
+  if (!cues) {
+    cues = cuesFromWords(estimateWordTimings(text, duration));
+    if (estimateCache.size > 50) estimateCache.clear();
+    estimateCache.set(key, cues);
+  }
+  return cues;
+};
+
+export const timelineCues = (timeline: NarrationTimeline): CaptionCue[] => {
+  if (timeline.cues && timeline.cues.length > 0) return timeline.cues;
+  const duration = timeline.duration();
+  return estimateCues(timeline.text, duration > 0 && isFinite(duration) ? duration : undefined);
+};
+
+export const cueAt = (cues: CaptionCue[], time: number): CaptionCue | null =>
+  cues.find(cue => time >= cue.start && time < cue.end) || null;
+
+// Duration of an audio blob (for estimated cues of a file we didn't get alignment for)
+export const audioDuration = (blob: Blob): Promise<number> => new Promise(resolve => {
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio();
+  const done = (value: number) => {
+    URL.revokeObjectURL(url);
+    resolve(value);
+  };
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => done(isFinite(audio.duration) ? audio.duration : NaN);
+  audio.onerror = () => done(NaN);
+  audio.src = url;
+});
+
+// --- WEBVTT ---
+
+const vttTime = (seconds: number) => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+};
+
+export const toWebVTT = (cues: CaptionCue[]): string =>
+  'WEBVTT\n\n' + cues.map((cue, i) => `${i + 1}\n${vttTime(cue.start)} --> ${vttTime(cue.end)}\n${cue.text}\n`).join('\n');
+
+export const downloadWebVTT = (cues: CaptionCue[], fileBase: string) => {
+  const blob = new Blob([toWebVTT(cues)], { type: 'text/vtt' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileBase.replace(/[\\/:*?"<>|]+/g, '_').slice(0, 80) || 'captions'}.vtt`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- SETTINGS ---
+
+type CaptionSettingsListener = (settings: CaptionSettings) => void;
+const settingsListeners = new Set<CaptionSettingsListener>();
+
+export const getCaptionSettings = (): CaptionSettings => CaptionSettingsStore.load();
+
+export const setCaptionSettings = (patch: Partial<CaptionSettings>) => {
+  const settings = { ...CaptionSettingsStore.load(), ...patch };
+  CaptionSettingsStore.save(settings);
+  settingsListeners.forEach(l => l(settings));
+};
+
+export const subscribeToCaptionSettings = (listener: CaptionSettingsListener) => {
+  settingsListeners.add(listener);
+  return () => { settingsListeners.delete(listener); };
+};
+
+// One button in the Shorts player: auto (with the narrator) -> small -> medium -> large -> off -> auto
+const SIZE_CYCLE: CaptionSize[] = ['small', 'medium', 'large'];
+
+export const cycleCaptionSettings = () => {
+  const { enabled, followNarration, size } = getCaptionSettings();
+  if (!enabled) return setCaptionSettings({ enabled: true, followNarration: true });
+  if (followNarration) return setCaptionSettings({ followNarration: false, size: 'small' });
+  const next = SIZE_CYCLE[SIZE_CYCLE.indexOf(size) + 1];
+  setCaptionSettings(next ? { size: next } : { enabled: false });
+};
+
+export const useCaptionSettings = (): CaptionSettings => {
+  const [settings, setSettings] = useState(getCaptionSettings);
+  useEffect(() => subscribeToCaptionSettings(setSettings), []);
+  return settings;
+};
+
+// --- PLAYER HOOK ---
+
+const TICK_MS = 120;
+
+/**
+ * الجملة الحالية للترجمة. إن كان الراوي يقرأ هذا النص نتبع توقيته؛
+ * followNarration = ننتظر الراوي (حتى NARRATION_WAIT_MS) بدل أن نسبقه بالتوقيت التقديري.
+ */
+export const useSyncedCaption = (text: string, isActive: boolean, followNarration: boolean): string | null => {
+  const [caption, setCaption] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isActive || !text || !text.trim()) {
+      setCaption(null);
+      return;
+    }
+    const startedAt = Date.now();
+    const ownCues = estimateCues(text.trim());
+    let narrationSeen = false;
+
+    const tick = () => {
+      const timeline = getNarrationTimeline();
+      let cue: CaptionCue | null = null;
+      if (timeline && timeline.source === text) {
+        narrationSeen = true;
+        cue = cueAt(timelineCues(timeline), timeline.currentTime());
+      } else if (!narrationSeen && (!followNarration || Date.now() - startedAt > NARRATION_WAIT_MS)) {
+        // No narration (or it never came): reading-speed timing from when we gave up waiting
+        const offset = followNarration ? NARRATION_WAIT_MS : 0;
+        cue = cueAt(ownCues, (Date.now() - startedAt - offset) / 1000);
+      }
+      const next = cue?.text ?? null;
+      setCaption(prev => (prev === next ? prev : next));
+    };
+
+    tick();
+    const timer = setInterval(tick, TICK_MS);
+    return () => clearInterval(timer);
+  }, [text, isActive, followNarration]);
+
+  return caption;
+};
@@ -0,0 +1,163 @@
+import { NarrationProviderId, MixerChannel } from './types';
+import { channelVolume } from './audioMixer';
+
+// -----------------------------------------------------------------------------
+// NARRATION PROVIDERS
+// -----------------------------------------------------------------------------
+// الراوي لم يعد مربوطاً بـ ElevenLabs وحدها: كل مزود ينفذ نفس الواجهة، والترتيب
+// يأتي من settings/api_config (narration_providers). إن فشل مزود (نفدت المفاتيح،
+// لا يوجد صوت عربي...) ننتقل للتالي بدل أن يسكت الراوي.
+// مزود ElevenLabs نفسه في elevenLabsManager.ts (مع إدارة المفاتيح).
+// -----------------------------------------------------------------------------
+
+export interface NarrationCallbacks {
+  onStart: () => void;
+  onEnd: () => void;      // Finished, stopped or failed mid-way
+}
+
+export interface NarrationHandle {
+  stop: () => void;
+  // Playback clock for the captions (narrationCaptions.ts), in seconds
+  currentTime: () => number;
+  duration: () => number;      // NaN when unknown
+}
+
+// For providers without a media element: time since onStart, frozen once ended
+const createElapsedClock = () => {
+  let startedAt = 0;
+  let stoppedAt = 0;
+  return {
+    start: () => { startedAt = Date.now(); },
+    stop: () => { if (!stoppedAt) stoppedAt = Date.now(); },
+    currentTime: () => startedAt ? ((stoppedAt || Date.now()) - startedAt) / 1000 : 0
+  };
+};
+
+export interface NarrationProvider {
+  id: NarrationProviderId;
+  label: string;
+  isSupported: () => boolean;
+  // Resolves once playback has been started. Rejects when this provider can't speak
+  // the text right now, so the next provider in the order gets a turn.
+  // channel: which mixer level applies (audioMixer.ts), the narrator's or the AI avatar's.
+  speak: (text: string, callbacks: NarrationCallbacks, channel: MixerChannel) => Promise<NarrationHandle>;
+}
+
+export const NARRATION_PROVIDER_IDS: NarrationProviderId[] = ['elevenlabs', 'speech', 'mock'];
+// Mock stays out of the default order: it makes no sound
+export const DEFAULT_NARRATION_ORDER: NarrationProviderId[] = ['elevenlabs', 'speech'];
+
+// Unknown ids and duplicates are dropped; an empty result falls back to the default order
+export const parseNarrationOrder = (raw: any): NarrationProviderId[] => {
+  if (!Array.isArray(raw)) return DEFAULT_NARRATION_ORDER;
+  const order = raw.filter((id: any, i: number): id is NarrationProviderId =>
+    NARRATION_PROVIDER_IDS.includes(id) && raw.indexOf(id) === i
+  );
+  return order.length > 0 ? order : DEFAULT_NARRATION_ORDER;
+};
+
+// --- BROWSER SPEECH (speechSynthesis) ---
+
+const ARABIC_LANG = 'ar-SA';
+// Typical Arabic voice at rate 1; divided by the rate we set
+const SPEECH_SECONDS_PER_CHAR = 0.065;
+
+// Chrome fills the voice list asynchronously; the first call may see an empty list.
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => new Promise(resolve => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return resolve(voices);
+  const timer = setTimeout(() => resolve(window.speechSynthesis.getVoices()), 1000);
+  window.speechSynthesis.addEventListener('voiceschanged', () => {
+    clearTimeout(timer);
+    resolve(window.speechSynthesis.getVoices());
+  }, { once: true });
+});
+
+// Local voices first (they work offline), then the one matching the app's dialect
+const pickArabicVoice = (voices: SpeechSynthesisVoice[]) =>
+  voices
+    .filter(v => v.lang.toLowerCase().startsWith('ar'))
+    .sort((a, b) => Number(b.localService) - Number(a.localService) || Number(b.lang === ARABIC_LANG) - Number(a.lang === ARABIC_LANG))[0];
+
+export const speechSynthesisProvider: NarrationProvider = {
+  id: 'speech',
+  label: 'صوت المتصفح',
+  isSupported: () => typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined',
+  speak: async (text, callbacks, channel) => {
+    const voice = pickArabicVoice(await loadVoices());
+    if (!voice) throw new Error('No Arabic speechSynthesis voice');
+
+    const synth = window.speechSynthesis;
+    synth.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+    utterance.rate = 0.9;   // A little slower: it's a horror story
+    utterance.pitch = 0.8;
+    // Can't go through Web Audio: the mixer level becomes the utterance volume
+    utterance.volume = channelVolume(channel);
+
+    // No real clock for speechSynthesis: the time is estimated from the text length, and
+    // re-anchored on every word boundary the engine reports (not all voices report them).
+    const duration = text.length * SPEECH_SECONDS_PER_CHAR / utterance.rate;
+    let anchor = { at: 0, time: 0 };
+
+    let ended = false;
+    const finish = () => {
+      if (ended) return;
+      ended = true;
+      callbacks.onEnd();
+    };
+    utterance.onstart = () => {
+      anchor = { at: Date.now(), time: 0 };
+      callbacks.onStart();
+    };
+    utterance.onboundary = (event) => {
+      if (event.name && event.name !== 'word') return;
+      anchor = { at: Date.now(), time: (event.charIndex / Math.max(1, text.length)) * duration };
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+    synth.speak(utterance);
+
+    return {
+      stop: () => {
+        synth.cancel();
+        finish();
+      },
+      currentTime: () => {
+        if (!anchor.at) return 0;
+        return ended ? duration : Math.min(duration, anchor.time + (Date.now() - anchor.at) / 1000);
+      },
+      duration: () => duration
+    };
+  }
+};
+
+// --- MOCK ---
+// Silent, timed like real speech. For development and tests: the avatar and the
+// audio-state listeners behave exactly as with a real voice.
+
+const MOCK_MS_PER_CHAR = 60;
+
+export const mockNarrationProvider: NarrationProvider = {
+  id: 'mock',
+  label: 'تجريبي (بدون صوت)',
+  isSupported: () => true,
+  speak: async (text, callbacks) => {
+    const clock = createElapsedClock();
+    const durationMs = Math.max(800, text.length * MOCK_MS_PER_CHAR);
+    let ended = false;
+    const finish = () => {
+      if (ended) return;
+      ended = true;
+      clearTimeout(timer);
+      clock.stop();
+      callbacks.onEnd();
+    };
+    clock.start();
+    callbacks.onStart();
+    const timer = setTimeout(finish, durationMs);
+    return { stop: finish, currentTime: clock.currentTime, duration: () => durationMs / 1000 };
+  }
+};
@@ -1,58 +1,46 @@
+import { Video } from './types';
+import { getCreatedAtMs } from './feedRanking';
 
-const CACHE_NAME = 'hadiqa-horror-offline-v1';
+// Finished vault downloads (downloadManager.ts assembles files here; sw.js serves them)
+export const OFFLINE_CACHE_NAME = 'hadiqa-horror-offline-v1';
 
-export const downloadVideoWithProgress = async (
-  url: string, 
-  onProgress: (progress: number) => void
-): Promise<boolean> => {
-  return new Promise((resolve) => {
-    const xhr = new XMLHttpRequest();
-    xhr.open('GET', url, true);
-    xhr.responseType = 'blob';
-
-    xhr.onprogress = (event) => {
-      if (event.lengthComputable) {
-        const percentComplete = (event.loaded / event.total) * 100;
-        onProgress(percentComplete);
-      }
-    };
+// Tags stored on every vault entry so it can be verified later (vaultIntegrity.ts)
+export const VAULT_HEADERS = {
+  videoId: 'X-Video-Id',
+  expectedLength: 'X-Expected-Length',
+  etag: 'X-Source-ETag',
+  videoUpdated: 'X-Video-Updated',
+  downloadedAt: 'X-Downloaded-At'
+};
 
-    xhr.onload = async () => {
-      if (xhr.status === 200) {
-        try {
-          const cache = await caches.open(CACHE_NAME);
-          const response = new Response(xhr.response);
-          await cache.put(url, response);
-          onProgress(100);
-          resolve(true);
-        } catch (e) {
-          resolve(false);
-        }
-      } else {
-        resolve(false);
-      }
-    };
+// Version of a video doc: the admin's last edit, or its creation time.
+export const getVideoVersionMs = (video: Video): number => {
+  const raw = video.updated_at;
+  const updated = raw ? (typeof raw.seconds === 'number' ? raw.seconds * 1000 : new Date(raw).getTime()) : 0;
+  return Math.max(isNaN(updated) ? 0 : updated, getCreatedAtMs(video));
+};
+const SERVICE_WORKER_URL = './sw.js';
 
-    xhr.onerror = () => resolve(false);
-    xhr.send();
+// --- SERVICE WORKER (public/sw.js) ---
+// Serves downloaded videos with 206 Range responses, posters and the app shell offline.
+export const registerOfflineServiceWorker = () => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(e => {
+      console.warn("Service worker registration failed", e);
+    });
   });
 };
 
+export const isServiceWorkerActive = (): boolean =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator && !!navigator.serviceWorker.controller;
+
 export const removeVideoFromCache = async (url: string): Promise<boolean> => {
   try {
-    const cache = await caches.open(CACHE_NAME);
+    const cache = await caches.open(OFFLINE_CACHE_NAME);
     return await cache.delete(url);
   } catch (error) {
     return false;
   }
 };
 
-export const isVideoDownloaded = async (url: string): Promise<boolean> => {
-  try {
-    const cache = await caches.open(CACHE_NAME);
-    const response = await cache.match(url);
-    return !!response;
-  } catch (error) {
-    return false;
-  }
-};
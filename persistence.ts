@@ -0,0 +1,343 @@
+import { Video, UserInteractions, WatchHistoryEntry, ListEdit, DownloadItem, DownloadQueueState, DownloadStatus, StorageSettings, BufferUsageEntry, CaptionSettings, CaptionSize, AudioMix, VaultIssue, VaultCheckState } from './types';
+import { ChatMessage } from './SmartLogic';
+
+// -----------------------------------------------------------------------------
+// VERSIONED LOCAL PERSISTENCE
+// -----------------------------------------------------------------------------
+// كل مفتاح في localStorage يُسجل هنا مع رقم نسخة ودوال ترحيل (Migrations).
+// عند رفع النسخة لا نرمي بيانات المستخدم القديمة: نقرأ المفتاح القديم،
+// نرحّله خطوة بخطوة (v11 -> v12 ...)، نتحقق من الشكل حقلاً بحقل، ثم نحفظه
+// بالمفتاح الجديد ونحذف القديم.
+// -----------------------------------------------------------------------------
+
+export type Migration = (data: any) => any;
+
+export interface PersistedKeyConfig<T> {
+  name: string;
+  version: number;
+  storageKey: (version: number) => string;
+  oldestVersion?: number;                  // Oldest legacy key still worth looking for
+  migrations?: Record<number, Migration>;  // migrations[n] upgrades data from v(n) to v(n + 1)
+  validate: (data: any) => T;              // Coerces the shape, falling back per field
+  fallback: () => T;
+}
+
+export interface PersistedKey<T> {
+  readonly name: string;
+  readonly version: number;
+  readonly storageKey: string;
+  load: () => T;
+  save: (value: T) => boolean;
+  exists: () => boolean;
+}
+
+const registry = new Map<string, PersistedKey<any>>();
+
+export const getRegisteredKeys = () => Array.from(registry.values());
+
+const readJson = (key: string): { found: boolean, data?: any } => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return { found: false };
+    return { found: true, data: JSON.parse(raw) };
+  } catch (e) {
+    console.warn(`Persistence: unreadable value under "${key}"`, e);
+    return { found: false };
+  }
+};
+
+export const registerPersistedKey = <T>(config: PersistedKeyConfig<T>): PersistedKey<T> => {
+  const currentKey = config.storageKey(config.version);
+  const oldest = config.oldestVersion ?? config.version;
+
+  const runMigrations = (data: any, fromVersion: number) => {
+    let result = data;
+    for (let v = fromVersion; v < config.version; v++) {
+      const step = config.migrations?.[v];
+      if (step) {
+        try {
+          result = step(result);
+        } catch (e) {
+          console.warn(`Persistence: migration ${config.name} v${v} -> v${v + 1} failed, validating as-is`, e);
+        }
+      }
+    }
+    return result;
+  };
+
+  const save = (value: T): boolean => {
+    try {
+      localStorage.setItem(currentKey, JSON.stringify(value));
+      return true;
+    } catch (e) {
+      console.warn(`Persistence: failed to save "${currentKey}"`, e);
+      return false;
+    }
+  };
+
+  const load = (): T => {
+    const current = readJson(currentKey);
+    if (current.found) return config.validate(current.data);
+
+    // Newest legacy key first: it holds the most recent data.
+    for (let v = config.version - 1; v >= oldest; v--) {
+      const legacyKey = config.storageKey(v);
+      if (legacyKey === currentKey) continue;
+      const legacy = readJson(legacyKey);
+      if (!legacy.found) continue;
+
+      const migrated = config.validate(runMigrations(legacy.data, v));
+      if (save(migrated)) {
+        for (let old = v; old >= oldest; old--) {
+          try { localStorage.removeItem(config.storageKey(old)); } catch (e) {}
+        }
+      }
+      return migrated;
+    }
+
+    return config.fallback();
+  };
+
+  const exists = () => {
+    try { return localStorage.getItem(currentKey) !== null; } catch (e) { return false; }
+  };
+
+  const persisted: PersistedKey<T> = {
+    name: config.name,
+    version: config.version,
+    storageKey: currentKey,
+    load,
+    save,
+    exists
+  };
+  registry.set(config.name, persisted);
+  return persisted;
+};
+
+// --- SHAPE VALIDATORS ---
+
+const stringList = (value: any, fallback: string[] = []): string[] =>
+  Array.isArray(value) ? Array.from(new Set(value.filter((x: any) => typeof x === 'string'))) : fallback;
+
+export const createEmptyInteractions = (): UserInteractions => ({
+  likedIds: [], dislikedIds: [], savedIds: [], savedCategoryNames: [], watchHistory: [], downloadedIds: []
+});
+
+// Validates each UserInteractions field on its own: one corrupt field never wipes the others.
+export const sanitizeInteractions = (raw: any): UserInteractions => {
+  const base = createEmptyInteractions();
+  if (!raw || typeof raw !== 'object') return base;
+
+  base.likedIds = stringList(raw.likedIds);
+  base.dislikedIds = stringList(raw.dislikedIds);
+  base.savedIds = stringList(raw.savedIds);
+  base.savedCategoryNames = stringList(raw.savedCategoryNames);
+  base.downloadedIds = stringList(raw.downloadedIds);
+
+  if (Array.isArray(raw.watchHistory)) {
+    base.watchHistory = raw.watchHistory
+      .filter((h: any) => h && typeof h.id === 'string' && typeof h.progress === 'number' && isFinite(h.progress))
+      .map((h: any) => {
+        const entry: WatchHistoryEntry = { id: h.id, progress: Math.max(0, Math.min(1, h.progress)) };
+        if (typeof h.position === 'number' && isFinite(h.position) && h.position >= 0) entry.position = h.position;
+        if (typeof h.updatedAt === 'number' && isFinite(h.updatedAt)) entry.updatedAt = h.updatedAt;
+        return entry;
+      });
+  }
+
+  if (raw.listEdits && typeof raw.listEdits === 'object') {
+    const edits: Record<string, ListEdit> = {};
+    Object.entries(raw.listEdits).forEach(([key, edit]: [string, any]) => {
+      if (edit && typeof edit.present === 'boolean' && typeof edit.at === 'number' && isFinite(edit.at)) {
+        edits[key] = { present: edit.present, at: edit.at };
+      }
+    });
+    base.listEdits = edits;
+  }
+  return base;
+};
+
+export const sanitizeVideoList = (raw: any): Video[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((v: any) =>
+    v && typeof v === 'object' && typeof v.id === 'string' &&
+    (typeof v.video_url === 'string' || typeof v.redirect_url === 'string')
+  );
+};
+
+const sanitizeChatHistory = (raw: any): ChatMessage[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((m: any) => m && (m.role === 'user' || m.role === 'model') && typeof m.text === 'string');
+};
+
+const DOWNLOAD_STATUSES: DownloadStatus[] = ['queued', 'downloading', 'paused', 'error', 'done'];
+export const DEFAULT_MAX_CONCURRENT_DOWNLOADS = 2;
+
+const sanitizeDownloadQueue = (raw: any): DownloadQueueState => {
+  const items: DownloadItem[] = Array.isArray(raw?.items)
+    ? raw.items
+        .filter((i: any) => i && typeof i.id === 'string' && typeof i.url === 'string')
+        .map((i: any) => {
+          const item: DownloadItem = {
+            id: i.id,
+            url: i.url,
+            title: typeof i.title === 'string' ? i.title : '',
+            status: DOWNLOAD_STATUSES.includes(i.status) ? i.status : 'queued',
+            bytesDownloaded: Math.max(0, Number(i.bytesDownloaded) || 0),
+            totalBytes: Math.max(0, Number(i.totalBytes) || 0),
+            parts: Math.max(0, Number(i.parts) || 0),
+            addedAt: Number(i.addedAt) || Date.now()
+          };
+          if (typeof i.error === 'string') item.error = i.error;
+          if (typeof i.etag === 'string' && i.etag) item.etag = i.etag;
+          if (typeof i.videoUpdatedAt === 'number' && isFinite(i.videoUpdatedAt)) item.videoUpdatedAt = i.videoUpdatedAt;
+          return item;
+        })
+    : [];
+  const maxConcurrent = Math.max(1, Math.min(4, Number(raw?.maxConcurrent) || DEFAULT_MAX_CONCURRENT_DOWNLOADS));
+  return { items, maxConcurrent };
+};
+
+const sanitizeStorageSettings = (raw: any): StorageSettings => ({
+  maxVaultBytes: Math.max(0, Number(raw?.maxVaultBytes) || 0),
+  fullCatalogSync: raw?.fullCatalogSync === true
+});
+
+const VAULT_ISSUES: VaultIssue[] = ['corrupt', 'stale'];
+
+const sanitizeVaultCheck = (raw: any): VaultCheckState => {
+  const issues: Record<string, VaultIssue> = {};
+  if (raw?.issues && typeof raw.issues === 'object') {
+    Object.keys(raw.issues).forEach(id => {
+      if (VAULT_ISSUES.includes(raw.issues[id])) issues[id] = raw.issues[id];
+    });
+  }
+  return { lastRemoteCheck: Math.max(0, Number(raw?.lastRemoteCheck) || 0), issues };
+};
+
+const CAPTION_SIZES: CaptionSize[] = ['small', 'medium', 'large'];
+
+const sanitizeCaptionSettings = (raw: any): CaptionSettings => ({
+  enabled: raw?.enabled !== false,
+  size: CAPTION_SIZES.includes(raw?.size) ? raw.size : 'medium',
+  followNarration: raw?.followNarration !== false
+});
+
+const clampVolume = (value: any) => {
+  const n = Number(value);
+  return isNaN(n) || value === null || value === undefined ? 1 : Math.min(1, Math.max(0, n));
+};
+
+// Exported for the users/{uid}.audio_mix copy (audioMixer.ts)
+export const sanitizeAudioMix = (raw: any): AudioMix => ({
+  video: clampVolume(raw?.video),
+  narration: clampVolume(raw?.narration),
+  avatar: clampVolume(raw?.avatar),
+  updatedAt: Math.max(0, Number(raw?.updatedAt) || 0)
+});
+
+const sanitizeBufferUsage = (raw: any): Record<string, BufferUsageEntry> => {
+  const result: Record<string, BufferUsageEntry> = {};
+  if (!raw || typeof raw !== 'object') return result;
+  Object.keys(raw).forEach(url => {
+    const entry = raw[url];
+    if (!entry || typeof entry !== 'object') return;
+    result[url] = {
+      lastUsed: Number(entry.lastUsed) || 0,
+      size: Math.max(0, Number(entry.size) || 0)
+    };
+  });
+  return result;
+};
+
+// --- REGISTERED KEYS ---
+
+export const InteractionsStore = registerPersistedKey<UserInteractions>({
+  name: 'interactions',
+  version: 12,
+  oldestVersion: 10,
+  storageKey: v => `al-hadiqa-interactions-v${v}`,
+  migrations: {
+    // v10 had no saved categories, v11 had no offline downloads.
+    10: d => ({ ...d, savedCategoryNames: d?.savedCategoryNames || [] }),
+    11: d => ({ ...d, downloadedIds: d?.downloadedIds || [] })
+  },
+  validate: sanitizeInteractions,
+  fallback: createEmptyInteractions
+});
+
+// Legacy: the catalog now lives in IndexedDB (catalogStore.ts), which migrates and removes this key.
+export const VideoCatalogStore = registerPersistedKey<Video[]>({
+  name: 'video-catalog',
+  version: 1,
+  storageKey: () => 'rooh1_videos_cache',
+  validate: sanitizeVideoList,
+  fallback: () => []
+});
+
+export const OracleHistoryStore = registerPersistedKey<ChatMessage[]>({
+  name: 'oracle-history',
+  version: 7,
+  oldestVersion: 5,
+  storageKey: v => `al-hadiqa-ai-history-v${v}`,
+  validate: sanitizeChatHistory,
+  fallback: () => []
+});
+
+export const DownloadQueueStore = registerPersistedKey<DownloadQueueState>({
+  name: 'download-queue',
+  version: 1,
+  storageKey: v => `rooh-download-queue-v${v}`,
+  validate: sanitizeDownloadQueue,
+  fallback: () => ({ items: [], maxConcurrent: DEFAULT_MAX_CONCURRENT_DOWNLOADS })
+});
+
+export const StorageSettingsStore = registerPersistedKey<StorageSettings>({
+  name: 'storage-settings',
+  version: 1,
+  storageKey: v => `rooh-storage-settings-v${v}`,
+  validate: sanitizeStorageSettings,
+  fallback: () => ({ maxVaultBytes: 0, fullCatalogSync: false })
+});
+
+export const BufferUsageStore = registerPersistedKey<Record<string, BufferUsageEntry>>({
+  name: 'buffer-usage',
+  version: 1,
+  storageKey: v => `rooh-buffer-usage-v${v}`,
+  validate: sanitizeBufferUsage,
+  fallback: () => ({})
+});
+
+// Vault check results (vaultIntegrity.ts)
+export const VaultCheckStore = registerPersistedKey<VaultCheckState>({
+  name: 'vault-check',
+  version: 1,
+  storageKey: v => `rooh-vault-check-v${v}`,
+  validate: sanitizeVaultCheck,
+  fallback: () => ({ lastRemoteCheck: 0, issues: {} })
+});
+
+// Narration audio bookkeeping (narrationCache.ts), same shape as the buffer's
+export const NarrationUsageStore = registerPersistedKey<Record<string, BufferUsageEntry>>({
+  name: 'narration-usage',
+  version: 1,
+  storageKey: v => `rooh-narration-usage-v${v}`,
+  validate: sanitizeBufferUsage,
+  fallback: () => ({})
+});
+
+export const CaptionSettingsStore = registerPersistedKey<CaptionSettings>({
+  name: 'caption-settings',
+  version: 1,
+  storageKey: v => `rooh-caption-settings-v${v}`,
+  validate: sanitizeCaptionSettings,
+  fallback: () => ({ enabled: true, size: 'medium', followNarration: true })
+});
+
+export const AudioMixStore = registerPersistedKey<AudioMix>({
+  name: 'audio-mix',
+  version: 1,
+  storageKey: v => `rooh-audio-mix-v${v}`,
+  validate: sanitizeAudioMix,
+  fallback: () => ({ video: 1, narration: 1, avatar: 1, updatedAt: 0 })
+});
@@ -0,0 +1,71 @@
+import { WatchHistoryEntry } from './types';
+
+// -----------------------------------------------------------------------------
+// RESUMABLE PLAYBACK
+// -----------------------------------------------------------------------------
+// سجل المشاهدة يحفظ النسبة (progress) + الثانية المطلقة (position) + وقت التحديث (updatedAt).
+// عند فتح فيديو سبق مشاهدة جزء منه، المشغل يقفز إلى آخر موضع ويعرض
+// "استكمال من 03:12 / من البداية".
+// -----------------------------------------------------------------------------
+
+export const STARTED_PROGRESS = 0.05;   // Below this the video counts as not started
+export const FINISHED_PROGRESS = 0.95;  // Above this the video counts as finished
+const MIN_RESUME_SECONDS = 5;           // Not worth a prompt for the first seconds
+const END_MARGIN_SECONDS = 5;           // ...or for the last ones
+
+export const findWatchEntry = (history: WatchHistoryEntry[] | undefined, id: string): WatchHistoryEntry | undefined =>
+  history?.find(h => h.id === id);
+
+// Seconds to resume from, or null when the video should simply start from the beginning.
+// Entries written before `position` existed fall back to progress * duration (needs metadata).
+export const getResumePosition = (entry: WatchHistoryEntry | undefined, duration?: number): number | null => {
+  if (!entry || entry.progress >= FINISHED_PROGRESS) return null;
+  const hasDuration = typeof duration === 'number' && isFinite(duration) && duration > 0;
+
+  let seconds: number | null = null;
+  if (typeof entry.position === 'number' && entry.position > 0) seconds = entry.position;
+  else if (hasDuration) seconds = entry.progress * (duration as number);
+  if (seconds === null || seconds < MIN_RESUME_SECONDS) return null;
+
+  if (hasDuration && (duration as number) - seconds < END_MARGIN_SECONDS) return null;
+  return seconds;
+};
+
+// Same "drop the old entry, append the new one" shape the history always had, plus seconds and a timestamp.
+export const upsertWatchEntry = (history: WatchHistoryEntry[], id: string, progress: number, position?: number): WatchHistoryEntry[] => {
+  const entry: WatchHistoryEntry = { id, progress, updatedAt: Date.now() };
+  if (typeof position === 'number' && isFinite(position)) entry.position = position;
+  return [...history.filter(h => h.id !== id), entry];
+};
+
+// Most recent first. Entries without updatedAt (older app versions) keep their append order, after dated ones.
+export const sortByRecent = (history: WatchHistoryEntry[]): WatchHistoryEntry[] =>
+  history
+    .map((h, i) => ({ h, i }))
+    .sort((a, b) => ((b.h.updatedAt || 0) - (a.h.updatedAt || 0)) || (b.i - a.i))
+    .map(x => x.h);
+
+export const getUnfinishedEntries = (history: WatchHistoryEntry[] = []): WatchHistoryEntry[] =>
+  sortByRecent(history.filter(h => h.progress > STARTED_PROGRESS && h.progress < FINISHED_PROGRESS));
+
+export const formatPlaybackTime = (seconds: number) => {
+  if (!isFinite(seconds) || seconds < 0) return '00:00';
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = String(m).padStart(2, '0');
+  const ss = String(s).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+// Runs now if metadata is loaded (duration is known), otherwise as soon as it is.
+// Returns a cancel for when the player moves on before the metadata arrives.
+export const whenMetadataReady = (video: HTMLVideoElement, run: () => void): (() => void) => {
+  if (video.readyState >= 1) {
+    run();
+    return () => {};
+  }
+  video.addEventListener('loadedmetadata', run, { once: true });
+  return () => video.removeEventListener('loadedmetadata', run);
+};
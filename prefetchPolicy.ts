@@ -0,0 +1,128 @@
+import { useEffect, RefObject } from 'react';
+import { Video } from './types';
+import { bufferVideoChunk, bufferImage } from './smartCache';
+
+// -----------------------------------------------------------------------------
+// ADAPTIVE PREFETCH POLICY
+// -----------------------------------------------------------------------------
+// ماذا نحمّل مسبقاً وبأي حجم؟ حسب ترتيب الخلاصة الفعلي (generateVideoFeed)
+// والبطاقات التي على وشك الظهور في الشاشة، وحسب الشبكة (Network Information API).
+// لا تحميل مسبق إطلاقاً مع توفير البيانات (saveData) أو الشبكات المحدودة أو 2G،
+// ومجموع ما يُحمّل في الجلسة الواحدة له سقف.
+// -----------------------------------------------------------------------------
+
+export interface PrefetchProfile {
+  enabled: boolean;
+  chunkBytes: number;   // Head of each video
+  feedDepth: number;    // How many ranked feed items to warm up front
+  reason?: string;
+}
+
+// Not in lib.dom for every TS target; only the fields we read.
+interface NetworkInformationLike {
+  saveData?: boolean;
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+  type?: string;
+  metered?: boolean;    // Older draft of the spec, still exposed by some WebViews
+}
+
+const SESSION_PREFETCH_CAP = 40 * 1024 * 1024;
+// Cards within one and a half screens below the viewport are about to be seen
+const VIEWPORT_LOOKAHEAD = '0px 0px 150% 0px';
+
+let sessionBytes = 0;
+const inFlight = new Set<string>();
+const done = new Set<string>();
+
+const getConnection = (): NetworkInformationLike | undefined =>
+  typeof navigator !== 'undefined' ? (navigator as Navigator & { connection?: NetworkInformationLike }).connection : undefined;
+
+export const getPrefetchProfile = (): PrefetchProfile => {
+  const connection = getConnection();
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return { enabled: false, chunkBytes: 0, feedDepth: 0, reason: 'offline' };
+  }
+  if (connection?.saveData) return { enabled: false, chunkBytes: 0, feedDepth: 0, reason: 'save-data' };
+  if (connection?.metered) return { enabled: false, chunkBytes: 0, feedDepth: 0, reason: 'metered' };
+
+  switch (connection?.effectiveType) {
+    case 'slow-2g':
+    case '2g':
+      return { enabled: false, chunkBytes: 0, feedDepth: 0, reason: '2g' };
+    case '3g':
+      return { enabled: true, chunkBytes: 512 * 1024, feedDepth: 2 };
+    default:
+      // 4g, or a browser without the API (desktop Safari/Firefox): the old behaviour
+      return { enabled: true, chunkBytes: 1.5 * 1024 * 1024, feedDepth: 6 };
+  }
+};
+
+export const getSessionPrefetchBytes = () => sessionBytes;
+
+/**
+ * يحمّل بداية فيديو واحد إن سمحت الشبكة والسقف. آمن للاستدعاء المتكرر لنفس الرابط.
+ */
+export const prefetchVideo = async (url: string | undefined, poster?: string) => {
+  if (!url || done.has(url) || inFlight.has(url)) return;
+  const profile = getPrefetchProfile();
+  if (!profile.enabled || sessionBytes >= SESSION_PREFETCH_CAP) return;
+
+  inFlight.add(url);
+  try {
+    if (poster) bufferImage(poster);
+    const chunk = Math.min(profile.chunkBytes, SESSION_PREFETCH_CAP - sessionBytes);
+    sessionBytes += await bufferVideoChunk(url, chunk);
+    done.add(url);
+  } finally {
+    inFlight.delete(url);
+  }
+};
+
+/**
+ * يسخّن أول عناصر الخلاصة المرتبة (نفس ترتيب العرض) — بدل "3 ترند + 5 أحدث" الثابتة.
+ */
+export const prefetchRankedFeed = (rankedFeed: Video[]) => {
+  if (!rankedFeed || rankedFeed.length === 0) return;
+  const { enabled, feedDepth } = getPrefetchProfile();
+  if (!enabled) return;
+  // One at a time, in rank order: the cap should go to the top of the feed first
+  rankedFeed
+    .filter(v => v && v.video_url)
+    .slice(0, feedDepth)
+    .reduce((chain, v) => chain.then(() => prefetchVideo(v.video_url, v.poster_url)), Promise.resolve());
+};
+
+// --- VIEWPORT ---
+// One shared observer for every card; each element maps to its prefetch job.
+const viewportTargets = new Map<Element, () => void>();
+let observer: IntersectionObserver | null = null;
+
+const getObserver = () => {
+  if (observer || typeof IntersectionObserver === 'undefined') return observer;
+  observer = new IntersectionObserver(entries => {
+    entries.forEach(entry => {
+      if (!entry.isIntersecting) return;
+      const job = viewportTargets.get(entry.target);
+      observer?.unobserve(entry.target);
+      viewportTargets.delete(entry.target);
+      job?.();
+    });
+  }, { rootMargin: VIEWPORT_LOOKAHEAD });
+  return observer;
+};
+
+// Prefetches `url` once the element gets close to the viewport.
+export const usePrefetchOnApproach = (ref: RefObject<Element | null>, url?: string, poster?: string) => {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !url) return;
+    const io = getObserver();
+    if (!io) return;
+    viewportTargets.set(element, () => { prefetchVideo(url, poster); });
+    io.observe(element);
+    return () => {
+      io.unobserve(element);
+      viewportTargets.delete(element);
+    };
+  }, [url, poster]);
+};
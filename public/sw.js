@@ -0,0 +1,207 @@
+// -----------------------------------------------------------------------------
+// ROOH SERVICE WORKER — OFFLINE PLAYBACK & APP SHELL
+// -----------------------------------------------------------------------------
+// 1. الفيديوهات: من خزنة التحميل (hadiqa-horror-offline-v1) مع دعم كامل لطلبات Range
+//    (206 Partial Content) حتى يعمل التقديم والترجيع بدون نت.
+//    الأجزاء المؤقتة (rooh-video-buffer-v4) تُستخدم لبداية الفيديو فقط.
+// 2. الصور المصغرة: من rooh-image-cache-v1 ثم الشبكة.
+// 3. واجهة التطبيق: الشبكة أولاً ثم النسخة المخزنة، حتى يفتح التطبيق بدون اتصال.
+//    ملفات البناء (assets) تُخزن عند التثبيت: أول زيارة تحمّلها قبل أن يتحكم الـ SW بالصفحة.
+// أسماء الكاش يجب أن تطابق offlineManager.ts و smartCache.ts.
+// -----------------------------------------------------------------------------
+
+const SHELL_CACHE = 'rooh-app-shell-v1';
+const OFFLINE_VIDEO_CACHE = 'hadiqa-horror-offline-v1';
+const BUFFER_CACHE = 'rooh-video-buffer-v4';
+const IMAGE_CACHE = 'rooh-image-cache-v1';
+
+// Cross-origin files the shell needs to boot (Tailwind CDN, fonts, import map modules)
+const SHELL_CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v)$/i;
+
+// Filled in by `vite build` (sw-precache in vite.config.ts) with every built file; empty in dev
+const PRECACHE_ASSETS = self.__PRECACHE_ASSETS__ || [];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => Promise.all(
+        // One missing file must not leave the rest uncached
+        ['./', './index.html', ...PRECACHE_ASSETS].map(url => cache.add(url).catch(() => {}))
+      ))
+      .catch(() => {})
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(k => k.startsWith('rooh-app-shell-') && k !== SHELL_CACHE).map(k => caches.delete(k))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// --- RANGE HELPERS ---
+
+// "bytes=100-", "bytes=100-200", "bytes=-500" -> { start, end } clipped to size, or null if unsatisfiable
+const parseRange = (header, size) => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec((header || '').trim());
+  if (!match) return null;
+  let start, end;
+  if (match[1] === '') {
+    const suffix = Number(match[2]);
+    if (!suffix) return null;
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  if (isNaN(start) || isNaN(end) || start > end || start >= size) return null;
+  return { start, end };
+};
+
+const contentTypeOf = (response) => response.headers.get('Content-Type') || 'video/mp4';
+
+// Serves a complete cached file, honouring Range so <video> can seek offline.
+const respondFromFullFile = async (cached, rangeHeader) => {
+  const blob = await cached.blob();
+  const size = blob.size;
+  const type = contentTypeOf(cached);
+
+  if (!rangeHeader) {
+    return new Response(blob, {
+      status: 200,
+      headers: { 'Content-Type': type, 'Content-Length': String(size), 'Accept-Ranges': 'bytes' }
+    });
+  }
+
+  const range = parseRange(rangeHeader, size);
+  if (!range) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+  const body = blob.slice(range.start, range.end + 1);
+  return new Response(body, {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': type,
+      'Content-Length': String(body.size),
+      'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+      'Accept-Ranges': 'bytes'
+    }
+  });
+};
+
+// Serves the head of a video from a smart-buffer chunk. Only possible when the chunk
+// recorded the full file size (X-Total-Length) and the requested range starts inside it.
+const respondFromChunk = async (chunk, rangeHeader) => {
+  const total = Number(chunk.headers.get('X-Total-Length'));
+  if (!total) return null;
+  const blob = await chunk.blob();
+  const range = parseRange(rangeHeader || 'bytes=0-', total);
+  if (!range || range.start >= blob.size) return null;
+  const end = Math.min(range.end, blob.size - 1);
+  const body = blob.slice(range.start, end + 1);
+  return new Response(body, {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': contentTypeOf(chunk),
+      'Content-Length': String(body.size),
+      'Content-Range': `bytes ${range.start}-${end}/${total}`,
+      'Accept-Ranges': 'bytes'
+    }
+  });
+};
+
+const matchIn = async (cacheName, url) => {
+  try {
+    const cache = await caches.open(cacheName);
+    return await cache.match(url);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// --- STRATEGIES ---
+
+const handleVideo = async (request) => {
+  const url = request.url;
+  const rangeHeader = request.headers.get('Range');
+
+  const full = await matchIn(OFFLINE_VIDEO_CACHE, url);
+  if (full) return respondFromFullFile(full, rangeHeader);
+
+  const chunk = await matchIn(BUFFER_CACHE, url);
+  if (chunk) {
+    const partial = await respondFromChunk(chunk.clone(), rangeHeader);
+    if (partial) return partial;
+  }
+
+  try {
+    return await fetch(request);
+  } catch (e) {
+    return new Response(null, { status: 504, statusText: 'Offline' });
+  }
+};
+
+const handleImage = async (request) => {
+  const cached = await matchIn(IMAGE_CACHE, request.url);
+  if (cached) return cached;
+  try {
+    // Re-request with CORS so the response is readable and can be cached without opaque padding
+    const response = await fetch(request.url, { mode: 'cors', credentials: 'omit' });
+    if (response.ok) {
+      const cache = await caches.open(IMAGE_CACHE);
+      cache.put(request.url, response.clone()).catch(() => {});
+    }
+    return response;
+  } catch (e) {
+    try { return await fetch(request); } catch (err) { return new Response(null, { status: 504 }); }
+  }
+};
+
+const handleShell = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone()).catch(() => {});
+    return response;
+  } catch (e) {
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    // Any navigation (deep links, ?q= searches) boots from the cached index.html
+    if (request.mode === 'navigate') {
+      const index = (await cache.match('./index.html')) || (await cache.match('./'));
+      if (index) return index;
+    }
+    return new Response(null, { status: 504, statusText: 'Offline' });
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+  if (request.destination === 'video' || VIDEO_EXTENSIONS.test(url.pathname)) {
+    event.respondWith(handleVideo(request));
+    return;
+  }
+
+  if (request.destination === 'image' && url.origin !== self.location.origin) {
+    event.respondWith(handleImage(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin || SHELL_CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleShell(request));
+  }
+  // Everything else (Firestore, workers, APIs) goes straight to the network.
+});
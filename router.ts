@@ -0,0 +1,89 @@
+import { AppView } from './types';
+
+// -----------------------------------------------------------------------------
+// HASH ROUTER
+// -----------------------------------------------------------------------------
+// كل AppView له رابط (#/trend، #/saved ...) بالإضافة إلى:
+//   #/video/:id        -> يفتح مشغل الشورتس أو الفيديو الطويل مباشرة
+//   #/category/:name   -> صفحة القسم
+// نستخدم الـ Hash لأن التطبيق يُنشر كملفات ثابتة (base: './') بدون إعادة توجيه من السيرفر.
+// معلمات البحث (?q=...) تبقى في location.search ولا يلمسها الراوتر.
+// -----------------------------------------------------------------------------
+
+export interface Route {
+  view: AppView;
+  category?: string;
+  videoId?: string;
+}
+
+// history.state marker: entries pushed for a player overlay, so the app can step back over them.
+interface RouteHistoryState {
+  roohRoute: true;
+  overlay: boolean;
+}
+
+const VIEW_BY_SEGMENT = new Map<string, AppView>(
+  (Object.values(AppView) as AppView[]).map(v => [v as string, v])
+);
+
+const safeDecode = (value: string) => {
+  try { return decodeURIComponent(value); } catch (e) { return value; }
+};
+
+export const parseRoute = (hash: string): Route => {
+  const path = (hash || '').replace(/^#\/?/, '').split('?')[0];
+  const [segment = '', ...rest] = path.split('/').filter(Boolean);
+  const param = rest.length ? safeDecode(rest.join('/')) : undefined;
+
+  if (segment === 'video' && param) return { view: AppView.HOME, videoId: param };
+  if (segment === AppView.CATEGORY && param) return { view: AppView.CATEGORY, category: param };
+  const view = VIEW_BY_SEGMENT.get(segment);
+  // A bare #/category without a name has nothing to show.
+  return { view: view && view !== AppView.CATEGORY ? view : AppView.HOME };
+};
+
+export const buildRouteHash = (route: Route): string => {
+  if (route.videoId) return `#/video/${encodeURIComponent(route.videoId)}`;
+  if (route.view === AppView.CATEGORY && route.category) return `#/category/${encodeURIComponent(route.category)}`;
+  if (route.view === AppView.HOME || route.view === AppView.CATEGORY) return '#/';
+  return `#/${route.view}`;
+};
+
+// The video route keeps no view of its own: compare only what ends up in the hash.
+export const isSameRoute = (a: Route, b: Route) => buildRouteHash(a) === buildRouteHash(b);
+
+export const readCurrentRoute = (): Route =>
+  typeof window === 'undefined' ? { view: AppView.HOME } : parseRoute(window.location.hash);
+
+const writeHistory = (route: Route, mode: 'push' | 'replace', overlay: boolean) => {
+  if (typeof window === 'undefined') return;
+  try {
+    const url = `${window.location.pathname}${window.location.search}${buildRouteHash(route)}`;
+    const state: RouteHistoryState = { roohRoute: true, overlay };
+    if (mode === 'push') window.history.pushState(state, '', url);
+    else window.history.replaceState(state, '', url);
+  } catch (e) {
+    console.warn("Router: failed to update history", e);
+  }
+};
+
+export const pushRoute = (route: Route) => writeHistory(route, 'push', !!route.videoId);
+export const replaceRoute = (route: Route) => writeHistory(route, 'replace', !!route.videoId);
+
+// True when the current history entry was pushed by us for a player overlay.
+export const isOverlayEntry = () => {
+  try {
+    const state = window.history.state as RouteHistoryState | null;
+    return !!state?.roohRoute && state.overlay;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Back / forward buttons (and manual hash edits). Returns an unsubscribe function.
+export const subscribeToRoute = (listener: (route: Route) => void) => {
+  if (typeof window === 'undefined') return () => {};
+  const handler = () => listener(readCurrentRoute());
+  window.addEventListener('popstate', handler);
+  return () => window.removeEventListener('popstate', handler);
+};
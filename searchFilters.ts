@@ -0,0 +1,140 @@
+import { Video, UserInteractions } from './types';
+import { SearchIndex, searchVideos } from './arabicSearch';
+import { getCreatedAtMs } from './feedRanking';
+import { getVideoStats } from './videoCounters';
+
+// -----------------------------------------------------------------------------
+// SEARCH FILTERS, SORTING & URL STATE
+// -----------------------------------------------------------------------------
+// حالة صفحة البحث (النص + الفلاتر + الترتيب) تُحفظ في رابط الصفحة
+// (?q=...&type=shorts&cat=...) حتى يمكن مشاركة النتائج وتبقى بعد إعادة التحميل.
+// -----------------------------------------------------------------------------
+
+export type SearchTypeFilter = 'all' | 'shorts' | 'long';
+export type SearchSort = 'relevance' | 'newest' | 'views' | 'likes';
+
+export interface SearchState {
+  query: string;
+  type: SearchTypeFilter;
+  category: string;        // '' = every category
+  trendingOnly: boolean;
+  downloadedOnly: boolean;
+  unwatchedOnly: boolean;
+  sort: SearchSort;
+}
+
+export const DEFAULT_SEARCH_STATE: SearchState = {
+  query: '',
+  type: 'all',
+  category: '',
+  trendingOnly: false,
+  downloadedOnly: false,
+  unwatchedOnly: false,
+  sort: 'relevance'
+};
+
+// Same threshold UnwatchedPage uses for "started watching".
+const WATCHED_PROGRESS = 0.05;
+
+const TYPE_VALUES: SearchTypeFilter[] = ['all', 'shorts', 'long'];
+const SORT_VALUES: SearchSort[] = ['relevance', 'newest', 'views', 'likes'];
+
+const URL_PARAMS = {
+  query: 'q',
+  type: 'type',
+  category: 'cat',
+  trendingOnly: 'trending',
+  downloadedOnly: 'downloaded',
+  unwatchedOnly: 'unwatched',
+  sort: 'sort'
+} as const;
+
+export const hasActiveFilters = (state: SearchState) =>
+  state.type !== 'all' || !!state.category || state.trendingOnly || state.downloadedOnly || state.unwatchedOnly;
+
+export const readSearchStateFromUrl = (search: string = typeof window !== 'undefined' ? window.location.search : ''): SearchState => {
+  const params = new URLSearchParams(search);
+  const type = params.get(URL_PARAMS.type) as SearchTypeFilter;
+  const sort = params.get(URL_PARAMS.sort) as SearchSort;
+  return {
+    query: params.get(URL_PARAMS.query) || '',
+    type: TYPE_VALUES.includes(type) ? type : 'all',
+    category: params.get(URL_PARAMS.category) || '',
+    trendingOnly: params.get(URL_PARAMS.trendingOnly) === '1',
+    downloadedOnly: params.get(URL_PARAMS.downloadedOnly) === '1',
+    unwatchedOnly: params.get(URL_PARAMS.unwatchedOnly) === '1',
+    sort: SORT_VALUES.includes(sort) ? sort : 'relevance'
+  };
+};
+
+// True when the current link carries search state (used to open the search view on load).
+export const urlHasSearchState = (search: string = typeof window !== 'undefined' ? window.location.search : '') => {
+  const params = new URLSearchParams(search);
+  return Object.values(URL_PARAMS).some(p => params.has(p));
+};
+
+// Only non-default values go into the link, so shared URLs stay short.
+export const searchStateToParams = (state: SearchState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.query.trim()) params.set(URL_PARAMS.query, state.query.trim());
+  if (state.type !== 'all') params.set(URL_PARAMS.type, state.type);
+  if (state.category) params.set(URL_PARAMS.category, state.category);
+  if (state.trendingOnly) params.set(URL_PARAMS.trendingOnly, '1');
+  if (state.downloadedOnly) params.set(URL_PARAMS.downloadedOnly, '1');
+  if (state.unwatchedOnly) params.set(URL_PARAMS.unwatchedOnly, '1');
+  if (state.sort !== 'relevance') params.set(URL_PARAMS.sort, state.sort);
+  return params;
+};
+
+// replaceState: typing in the box must not add one history entry per letter.
+export const writeSearchStateToUrl = (state: SearchState | null) => {
+  if (typeof window === 'undefined') return;
+  try {
+    const params = new URLSearchParams(window.location.search);
+    Object.values(URL_PARAMS).forEach(p => params.delete(p));
+    if (state) searchStateToParams(state).forEach((value, key) => params.set(key, value));
+    const search = params.toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    window.history.replaceState(window.history.state, '', url);
+  } catch (e) {
+    console.warn("Search: failed to update URL", e);
+  }
+};
+
+const matchesFilters = (video: Video, state: SearchState, interactions: UserInteractions, watchedIds: Set<string>) => {
+  if (!video || !video.video_url) return false;
+  if (interactions.dislikedIds.includes(video.id)) return false;
+  if (state.type === 'shorts' && video.video_type !== 'Shorts') return false;
+  if (state.type === 'long' && video.video_type !== 'Long Video') return false;
+  if (state.category && video.category !== state.category) return false;
+  if (state.trendingOnly && !video.is_trending) return false;
+  if (state.downloadedOnly && !interactions.downloadedIds.includes(video.id)) return false;
+  if (state.unwatchedOnly && watchedIds.has(video.id)) return false;
+  return true;
+};
+
+const SORTERS: Record<Exclude<SearchSort, 'relevance'>, (a: Video, b: Video) => number> = {
+  newest: (a, b) => getCreatedAtMs(b) - getCreatedAtMs(a),
+  views: (a, b) => getVideoStats(b).views - getVideoStats(a).views,
+  likes: (a, b) => getVideoStats(b).likes - getVideoStats(a).likes
+};
+
+// Without a query the filters browse the whole library (newest first when sorted by relevance).
+export const runSearch = (
+  index: SearchIndex,
+  allVideos: Video[],
+  state: SearchState,
+  interactions: UserInteractions
+): Video[] => {
+  const watchedIds = new Set(
+    interactions.watchHistory.filter(h => h.progress > WATCHED_PROGRESS).map(h => h.id)
+  );
+
+  const base = state.query.trim()
+    ? searchVideos(index, state.query, Number.MAX_SAFE_INTEGER).map(r => r.video)
+    : [...allVideos].sort(SORTERS.newest);
+
+  const filtered = base.filter(v => matchesFilters(v, state, interactions, watchedIds));
+  // Array.prototype.sort is stable, so ties keep their relevance order.
+  return state.sort === 'relevance' ? filtered : filtered.sort(SORTERS[state.sort]);
+};
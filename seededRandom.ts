@@ -0,0 +1,122 @@
+// -----------------------------------------------------------------------------
+// SEEDED RANDOM SERVICE
+// -----------------------------------------------------------------------------
+// كل الترتيب العشوائي في الفيد يمر من هنا بدلاً من Math.random()
+// البذرة (Seed) مشتقة من المستخدم + الجلسة، لذلك نفس الفيد يمكن إعادة إنتاجه
+// في تقارير الأخطاء عن طريق ?seed=<value> في الرابط.
+// -----------------------------------------------------------------------------
+
+const USER_KEY_STORAGE = 'rooh-feed-user-key';
+const SESSION_KEY_STORAGE = 'rooh-feed-session-key';
+const SEED_URL_PARAM = 'seed';
+
+// FNV-1a string hash -> 32-bit unsigned integer
+export const hashSeed = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast PRNG returning floats in [0, 1)
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates on a copy, never mutates the input.
+export const shuffleWith = <T>(list: T[], random: () => number): T[] => {
+  const result = [...list];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const randomId = () => Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+
+const readStorage = (storage: Storage | undefined, key: string): string | null => {
+  try { return storage ? storage.getItem(key) : null; } catch (e) { return null; }
+};
+
+const writeStorage = (storage: Storage | undefined, key: string, value: string) => {
+  try { storage?.setItem(key, value); } catch (e) {}
+};
+
+class FeedRandomService {
+  private baseSeed: string;
+  private rotation = 0;
+
+  constructor() {
+    const fromUrl = this.readSeedFromUrl();
+    if (fromUrl) {
+      this.baseSeed = fromUrl;
+      return;
+    }
+
+    const local = typeof localStorage !== 'undefined' ? localStorage : undefined;
+    const session = typeof sessionStorage !== 'undefined' ? sessionStorage : undefined;
+
+    let userKey = readStorage(local, USER_KEY_STORAGE);
+    if (!userKey) {
+      userKey = randomId();
+      writeStorage(local, USER_KEY_STORAGE, userKey);
+    }
+
+    let sessionKey = readStorage(session, SESSION_KEY_STORAGE);
+    if (!sessionKey) {
+      sessionKey = randomId();
+      writeStorage(session, SESSION_KEY_STORAGE, sessionKey);
+    }
+
+    this.baseSeed = `${userKey}:${sessionKey}`;
+  }
+
+  private readSeedFromUrl(): string | null {
+    try {
+      if (typeof window === 'undefined') return null;
+      return new URLSearchParams(window.location.search).get(SEED_URL_PARAM);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  // Ties future sessions to the Firebase user. The running session keeps its seed so the feed doesn't jump.
+  public bindUser(uid: string) {
+    if (!uid) return;
+    writeStorage(typeof localStorage !== 'undefined' ? localStorage : undefined, USER_KEY_STORAGE, uid);
+  }
+
+  // The full seed string; paste it into ?seed= to reproduce the same feed.
+  // '.' and ':' survive a URL as-is ('#' would start the fragment and cut the seed short).
+  public getSeed(): string {
+    return this.rotation === 0 ? this.baseSeed : `${this.baseSeed}.${this.rotation}`;
+  }
+
+  public setSeed(seed: string) {
+    this.baseSeed = seed;
+    this.rotation = 0;
+  }
+
+  // Rotates the seed so the next ranking pass produces a fresh (but still reproducible) order.
+  public reshuffle(): string {
+    this.rotation += 1;
+    return this.getSeed();
+  }
+
+  // Independent stream per scope (e.g. 'feed', 'home-batches') so call order in one place doesn't shift another.
+  public createRng(scope: string): () => number {
+    return createSeededRandom(hashSeed(`${this.getSeed()}|${scope}`));
+  }
+}
+
+export const FeedRandom = new FeedRandomService();
@@ -0,0 +1,256 @@
+import { db } from './firebaseConfig';
+import { doc, getDoc } from "firebase/firestore";
+import { Video, AppView } from './types';
+import { SYSTEM_CONFIG } from './TechSpecs';
+import { buildRouteHash } from './router';
+
+// -----------------------------------------------------------------------------
+// SHARE SHEET & SHARE CARDS
+// -----------------------------------------------------------------------------
+// زر المشاركة: Web Share API إن وُجدت (مع صورة بطاقة مولدة على Canvas)،
+// وإلا نسخ الرابط المباشر (#/video/:id) إلى الحافظة.
+// البطاقة: البوستر + العنوان + القسم + الشعار بإطار نيون بنفس هوية Logo.tsx.
+// -----------------------------------------------------------------------------
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630; // Open Graph size
+const NEON_RED = '#ff0000';
+const NEON_YELLOW = '#eab308';
+
+export const buildVideoDeepLink = (video: Video): string => {
+  const base = typeof window !== 'undefined' ? `${window.location.origin}${window.location.pathname}` : '';
+  return `${base}${buildRouteHash({ view: AppView.HOME, videoId: video.id })}`;
+};
+
+// Same source as Logo.tsx: settings/branding overrides the built-in logo.
+let logoUrlPromise: Promise<string> | null = null;
+const getLogoUrl = (): Promise<string> => {
+  if (!logoUrlPromise) {
+    logoUrlPromise = getDoc(doc(db, "settings", "branding"))
+      .then(snap => (snap.exists() && snap.data().logo_url) || SYSTEM_CONFIG.identity.logoUrl)
+      .catch(() => SYSTEM_CONFIG.identity.logoUrl);
+  }
+  return logoUrlPromise;
+};
+
+const loadImage = (url?: string): Promise<HTMLImageElement | null> => new Promise(resolve => {
+  if (!url) return resolve(null);
+  const img = new Image();
+  img.crossOrigin = 'anonymous'; // Without CORS the canvas is tainted and toBlob() throws
+  img.onload = () => resolve(img);
+  img.onerror = () => resolve(null);
+  img.src = url;
+});
+
+// object-fit: cover
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, w: number, h: number) => {
+  const scale = Math.max(w / img.width, h / img.height);
+  const dw = img.width * scale;
+  const dh = img.height * scale;
+  ctx.drawImage(img, (w - dw) / 2, (h - dh) / 2, dw, dh);
+};
+
+// Greedy word wrap; RTL text is measured the same way.
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const words = (text || '').split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) break;
+    }
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  if (lines.length === maxLines && words.join(' ').length > lines.join(' ').length) {
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/\s+\S*$/, '')}…`;
+  }
+  return lines;
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+};
+
+// Only the active video and its neighbours are worth keeping: oldest use is dropped first
+const CARD_CACHE_LIMIT = 3;
+const cardCache = new Map<string, Promise<Blob | null>>();
+
+// Players drop the cards when they close
+export const clearShareCards = () => cardCache.clear();
+
+// 1200x630 PNG; null when canvas is unavailable or an image blocked CORS.
+// Players warm this up when a video becomes active: navigator.share must run soon after the tap.
+export const generateShareCard = (video: Video): Promise<Blob | null> => {
+  const cached = cardCache.get(video.id);
+  if (cached) {
+    // Map order is insertion order: re-insert to mark it as just used
+    cardCache.delete(video.id);
+    cardCache.set(video.id, cached);
+    return cached;
+  }
+
+  const job = (async (): Promise<Blob | null> => {
+    if (typeof document === 'undefined') return null;
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = CARD_WIDTH;
+      canvas.height = CARD_HEIGHT;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+
+      const [poster, logo] = await Promise.all([loadImage(video.poster_url), getLogoUrl().then(loadImage)]);
+
+      // Background: poster, or a dark red gradient when there is none
+      if (poster) {
+        drawCover(ctx, poster, CARD_WIDTH, CARD_HEIGHT);
+      } else {
+        const bg = ctx.createLinearGradient(0, 0, CARD_WIDTH, CARD_HEIGHT);
+        bg.addColorStop(0, '#1a0000');
+        bg.addColorStop(1, '#000000');
+        ctx.fillStyle = bg;
+        ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+      }
+      const shade = ctx.createLinearGradient(0, CARD_HEIGHT * 0.25, 0, CARD_HEIGHT);
+      shade.addColorStop(0, 'rgba(0,0,0,0.1)');
+      shade.addColorStop(1, 'rgba(0,0,0,0.92)');
+      ctx.fillStyle = shade;
+      ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+      // Neon frame
+      ctx.save();
+      ctx.shadowColor = NEON_RED;
+      ctx.shadowBlur = 40;
+      ctx.strokeStyle = NEON_RED;
+      ctx.lineWidth = 8;
+      roundedRect(ctx, 24, 24, CARD_WIDTH - 48, CARD_HEIGHT - 48, 36);
+      ctx.stroke();
+      ctx.restore();
+
+      ctx.direction = 'rtl';
+      ctx.textAlign = 'right';
+      const right = CARD_WIDTH - 80;
+
+      // Category pill
+      ctx.font = '900 30px sans-serif';
+      const catText = video.category || '';
+      if (catText) {
+        const pillW = ctx.measureText(catText).width + 48;
+        ctx.save();
+        ctx.shadowColor = NEON_RED;
+        ctx.shadowBlur = 20;
+        ctx.fillStyle = 'rgba(220,38,38,0.85)';
+        roundedRect(ctx, right - pillW, 330, pillW, 54, 27);
+        ctx.fill();
+        ctx.restore();
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(catText, right - 24, 368);
+      }
+
+      // Title
+      ctx.font = 'italic 900 58px sans-serif';
+      ctx.fillStyle = '#ffffff';
+      ctx.shadowColor = 'rgba(0,0,0,0.8)';
+      ctx.shadowBlur = 12;
+      wrapLines(ctx, video.title, CARD_WIDTH - 360, 2).forEach((line, i) => {
+        ctx.fillText(line, right, 450 + i * 70);
+      });
+      ctx.shadowBlur = 0;
+
+      // Logo with the red/yellow double ring used across the app
+      const cx = 150, cy = CARD_HEIGHT - 150, r = 70;
+      ctx.save();
+      ctx.shadowColor = NEON_RED;
+      ctx.shadowBlur = 30;
+      ctx.strokeStyle = NEON_RED;
+      ctx.lineWidth = 6;
+      ctx.beginPath(); ctx.arc(cx, cy, r + 14, 0, Math.PI * 2); ctx.stroke();
+      ctx.shadowColor = NEON_YELLOW;
+      ctx.strokeStyle = NEON_YELLOW;
+      ctx.lineWidth = 4;
+      ctx.beginPath(); ctx.arc(cx, cy, r + 4, 0.3 * Math.PI, 1.3 * Math.PI); ctx.stroke();
+      ctx.restore();
+      if (logo) {
+        ctx.save();
+        ctx.beginPath(); ctx.arc(cx, cy, r, 0, Math.PI * 2); ctx.clip();
+        ctx.drawImage(logo, cx - r, cy - r, r * 2, r * 2);
+        ctx.restore();
+      }
+
+      ctx.textAlign = 'left';
+      ctx.direction = 'ltr';
+      ctx.font = '900 28px sans-serif';
+      ctx.fillStyle = NEON_RED;
+      ctx.fillText('@الحديقة المرعبة', cx + r + 36, cy + 10);
+
+      return await new Promise<Blob | null>(resolve => canvas.toBlob(b => resolve(b), 'image/png'));
+    } catch (e) {
+      console.warn("Share card generation failed", e);
+      return null;
+    }
+  })();
+
+  cardCache.set(video.id, job);
+  while (cardCache.size > CARD_CACHE_LIMIT) cardCache.delete(cardCache.keys().next().value as string);
+  job.then(blob => { if (!blob && cardCache.get(video.id) === job) cardCache.delete(video.id); });
+  return job;
+};
+
+const copyToClipboard = async (text: string): Promise<boolean> => {
+  try {
+    if (navigator.clipboard?.writeText) {
+      await navigator.clipboard.writeText(text);
+      return true;
+    }
+  } catch (e) {}
+  // Older WebViews: execCommand fallback
+  try {
+    const area = document.createElement('textarea');
+    area.value = text;
+    area.style.position = 'fixed';
+    area.style.opacity = '0';
+    document.body.appendChild(area);
+    area.select();
+    const ok = document.execCommand('copy');
+    document.body.removeChild(area);
+    return ok;
+  } catch (e) {
+    return false;
+  }
+};
+
+export const shareVideo = async (video: Video): Promise<ShareOutcome> => {
+  const url = buildVideoDeepLink(video);
+  const title = video.title || SYSTEM_CONFIG.identity.appName;
+  const text = `${title} — ${video.category}`;
+
+  if (typeof navigator !== 'undefined' && typeof navigator.share === 'function') {
+    try {
+      const card = await generateShareCard(video);
+      const file = card ? new File([card], `rooh-${video.id}.png`, { type: 'image/png' }) : null;
+      if (file && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ title, text: `${text}\n${url}`, url, files: [file] });
+      } else {
+        await navigator.share({ title, text, url });
+      }
+      return 'shared';
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return 'cancelled';
+      console.warn("Web Share failed, falling back to copy", e);
+    }
+  }
+
+  return (await copyToClipboard(url)) ? 'copied' : 'failed';
+};
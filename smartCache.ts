@@ -1,26 +1,106 @@
 
-import { Video } from './types';
+import { BufferUsageStore } from './persistence';
+import { isServiceWorkerActive } from './offlineManager';
 
 // حجم الجزء الذي سيتم تحميله (تم تعديله ليكون 1.5 ميجا بايت تقريباً ليتناسب مع طلب 1 ميجا مع هامش أمان بسيط)
 const BUFFER_SIZE = 1.5 * 1024 * 1024; 
 const CACHE_NAME = 'rooh-video-buffer-v4'; 
 const IMAGE_CACHE_NAME = 'rooh-image-cache-v1';
+// سقف أجزاء التشغيل المسبق: عند تجاوزه نحذف الأقدم استخداماً (LRU)
+export const MAX_BUFFER_BYTES = 60 * 1024 * 1024;
+
+const openBufferCache = () => caches.open(CACHE_NAME);
+
+// --- LRU BOOKKEEPING ---
+// Cache Storage has no access times, so last use and size per chunk live in localStorage.
+// Chunks the service worker serves directly can't be tracked from here; re-buffering a
+// video that is still in the feed counts as a use instead.
+const bufferUsage = BufferUsageStore.load();
+
+const touchBufferEntry = (url: string, size?: number) => {
+  const previous = bufferUsage[url];
+  bufferUsage[url] = { lastUsed: Date.now(), size: size ?? previous?.size ?? 0 };
+  BufferUsageStore.save(bufferUsage);
+};
+
+const sizeOf = async (cache: Cache, request: Request): Promise<number> => {
+  const known = bufferUsage[request.url]?.size;
+  if (known) return known;
+  const response = await cache.match(request);
+  if (!response) return 0;
+  const header = Number(response.headers.get('Content-Length'));
+  return header > 0 ? header : (await response.blob()).size;
+};
+
+const runTrim = async (maxBytes: number): Promise<number> => {
+  const cache = await openBufferCache();
+  const requests = await cache.keys();
+  const entries = await Promise.all(requests.map(async request => ({
+    request,
+    size: await sizeOf(cache, request),
+    lastUsed: bufferUsage[request.url]?.lastUsed || 0  // Chunks from before tracking go first
+  })));
+
+  // Forget bookkeeping for chunks that are no longer cached
+  const cachedUrls = new Set(requests.map(r => r.url));
+  Object.keys(bufferUsage).forEach(url => { if (!cachedUrls.has(url)) delete bufferUsage[url]; });
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  let freed = 0;
+  for (const entry of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= maxBytes) break;
+    await cache.delete(entry.request);
+    delete bufferUsage[entry.request.url];
+    total -= entry.size;
+    freed += entry.size;
+  }
+  BufferUsageStore.save(bufferUsage);
+  return freed;
+};
+
+let trimQueue: Promise<number> = Promise.resolve(0);
 
 /**
- * يقوم بتحميل جزء صغير من الفيديو (1-1.5 ميجا) وتخزينه.
+ * يحذف أقدم الأجزاء استخداماً حتى يصبح حجم الكاش ضمن maxBytes. يعيد عدد البايتات المحررة.
  */
-export const bufferVideoChunk = async (url: string) => {
-  if (!url || !url.startsWith('http')) return;
+export const trimBufferCache = (maxBytes: number = MAX_BUFFER_BYTES): Promise<number> => {
+  // Serialized: the prefetcher fires several buffers at once
+  trimQueue = trimQueue.catch(() => 0).then(() => runTrim(maxBytes)).catch(() => 0);
+  return trimQueue;
+};
 
+export const getBufferUsage = async (): Promise<number> => {
   try {
-    const cache = await caches.open(CACHE_NAME);
+    const cache = await openBufferCache();
+    const requests = await cache.keys();
+    const sizes = await Promise.all(requests.map(r => sizeOf(cache, r)));
+    return sizes.reduce((sum, size) => sum + size, 0);
+  } catch (e) {
+    return 0;
+  }
+};
+
+export const clearBufferCache = () => trimBufferCache(0);
+
+/**
+ * يقوم بتحميل جزء صغير من الفيديو (1-1.5 ميجا افتراضياً) وتخزينه.
+ * يعيد عدد البايتات التي تم تحميلها فعلاً (0 إن كان الجزء موجوداً أو فشل التحميل).
+ */
+export const bufferVideoChunk = async (url: string, maxBytes: number = BUFFER_SIZE): Promise<number> => {
+  if (!url || !url.startsWith('http')) return 0;
+
+  try {
+    const cache = await openBufferCache();
     const cachedResponse = await cache.match(url);
 
-    if (cachedResponse) return;
+    if (cachedResponse) {
+      touchBufferEntry(url);
+      return 0;
+    }
 
     const response = await fetch(url, {
         headers: {
-            'Range': `bytes=0-${BUFFER_SIZE}` 
+            'Range': `bytes=0-${Math.round(maxBytes)}` 
         },
         mode: 'cors',
         cache: 'no-store' 
@@ -28,21 +108,34 @@ export const bufferVideoChunk = async (url: string) => {
 
     if (response.ok || response.status === 206) {
         const blob = await response.blob();
-        const newResponse = new Response(blob, {
-            status: 200,
-            statusText: "OK",
-            headers: {
-                'Content-Type': response.headers.get('Content-Type') || 'video/mp4',
-                'Content-Length': blob.size.toString(),
-                'X-Smart-Buffer': 'true'
-            }
-        });
+        const headers: Record<string, string> = {
+            'Content-Type': response.headers.get('Content-Type') || 'video/mp4',
+            'Content-Length': blob.size.toString(),
+            'X-Smart-Buffer': 'true'
+        };
+        // الحجم الكامل للملف (من Content-Range) يسمح للـ Service Worker بتقديم بداية الفيديو من هذا الجزء
+        // (يتطلب أن يكشف السيرفر Content-Range عبر Access-Control-Expose-Headers)
+        const totalMatch = /\/(\d+)$/.exec(response.headers.get('Content-Range') || '');
+        const total = totalMatch ? totalMatch[1] : (response.status === 200 ? blob.size.toString() : null);
+        if (total) headers['X-Total-Length'] = total;
+
+        const newResponse = new Response(blob, { status: 200, statusText: "OK", headers });
         
-        await cache.put(url, newResponse);
+        try {
+            await cache.put(url, newResponse);
+        } catch (e: any) {
+            // Disk full: make room from the oldest chunks and skip this one
+            if (e?.name === 'QuotaExceededError') trimBufferCache(MAX_BUFFER_BYTES / 2);
+            return blob.size;
+        }
+        touchBufferEntry(url, blob.size);
+        trimBufferCache();
+        return blob.size;
     }
   } catch (e) {
     // Silent fail
   }
+  return 0;
 };
 
 /**
@@ -67,11 +160,15 @@ export const bufferImage = async (url: string) => {
  */
 export const getVideoSrcFromCache = async (url: string): Promise<string | null> => {
     if (!url) return null;
+    // With the service worker in control the real URL is served from cache with Range support;
+    // a blob of the first chunk would only break seeking.
+    if (isServiceWorkerActive()) return null;
     try {
-        const cache = await caches.open(CACHE_NAME);
+        const cache = await openBufferCache();
         const response = await cache.match(url);
         
         if (response) {
+            touchBufferEntry(url);
             const blob = await response.blob();
             return URL.createObjectURL(blob);
         }
@@ -80,23 +177,3 @@ export const getVideoSrcFromCache = async (url: string): Promise<string | null>
     }
     return null;
 };
-
-// الدالة الجماعية (لأول مجموعة عند فتح التطبيق)
-export const initSmartBuffering = async (videos: Video[]) => {
-  if (!videos || videos.length === 0) return;
-
-  const trending = videos.filter(v => v.is_trending).slice(0, 3);
-  const newest = videos.slice(0, 5);
-  
-  const queue = Array.from(new Set([...trending, ...newest]));
-
-  // تنفيذ التحميل بالتوازي في الخلفية للفيديو والصور
-  queue.forEach(video => {
-      if (video.video_url) {
-          bufferVideoChunk(video.video_url);
-      }
-      if (video.poster_url) {
-          bufferImage(video.poster_url);
-      }
-  });
-};
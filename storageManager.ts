@@ -0,0 +1,157 @@
+import { DownloadItem, StorageSettings } from './types';
+import { StorageSettingsStore } from './persistence';
+import { OFFLINE_CACHE_NAME } from './offlineManager';
+import { DOWNLOAD_PARTS_CACHE } from './downloadManager';
+import { getBufferUsage, trimBufferCache } from './smartCache';
+import { getNarrationCacheUsage } from './narrationCache';
+
+// -----------------------------------------------------------------------------
+// OFFLINE STORAGE MANAGER
+// -----------------------------------------------------------------------------
+// المساحة المستخدمة والمتاحة (navigator.storage.estimate)، طلب تخزين دائم (persist)
+// حتى لا يمسح المتصفح الخزنة عند امتلاء القرص، حد أقصى لحجم الخزنة يحدده المستخدم،
+// وفحص قبل كل تحميل: إن لم تكفِ المساحة نحرر أجزاء التشغيل المسبق (LRU) أولاً ثم نحذر.
+// -----------------------------------------------------------------------------
+
+export interface StorageReport {
+  usage: number;           // Whole origin, as reported by the browser (approximate)
+  quota: number;           // 0 when the browser doesn't report it
+  persisted: boolean;
+  vaultBytes: number;      // Finished downloads + parts of unfinished ones
+  bufferBytes: number;     // Smart-buffer chunks (evictable)
+  narrationBytes: number;  // Cached narration audio (evictable, narrationCache.ts)
+  maxVaultBytes: number;   // 0 = no limit
+}
+
+export interface DownloadFitResult {
+  fits: boolean;
+  reason?: 'vault-limit' | 'quota';
+  needed?: number;
+  available?: number;
+}
+
+export const VAULT_SIZE_OPTIONS = [0, 500, 1024, 2048, 5120].map(mb => mb * 1024 * 1024);
+
+export const getStorageSettings = (): StorageSettings => StorageSettingsStore.load();
+
+type StorageSettingsListener = (settings: StorageSettings) => void;
+const settingsListeners = new Set<StorageSettingsListener>();
+
+const saveStorageSettings = (patch: Partial<StorageSettings>) => {
+  const settings = { ...StorageSettingsStore.load(), ...patch };
+  StorageSettingsStore.save(settings);
+  settingsListeners.forEach(l => l(settings));
+};
+
+export const subscribeToStorageSettings = (listener: StorageSettingsListener) => {
+  settingsListeners.add(listener);
+  return () => { settingsListeners.delete(listener); };
+};
+
+export const setMaxVaultBytes = (bytes: number) => {
+  saveStorageSettings({ maxVaultBytes: Math.max(0, bytes) });
+};
+
+// Full catalog sync (catalogStore.ts): every video doc stays on the device for offline browsing
+export const setFullCatalogSync = (enabled: boolean) => {
+  saveStorageSettings({ fullCatalogSync: enabled });
+};
+
+export const getStorageEstimate = async (): Promise<{ usage: number, quota: number }> => {
+  try {
+    if (navigator.storage?.estimate) {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { usage, quota };
+    }
+  } catch (e) {
+    console.warn("Storage estimate unavailable", e);
+  }
+  return { usage: 0, quota: 0 };
+};
+
+export const isStoragePersisted = async (): Promise<boolean> => {
+  try {
+    return !!(await navigator.storage?.persisted?.());
+  } catch (e) {
+    return false;
+  }
+};
+
+// Browsers may grant this silently (installed PWA, bookmarked site) or ignore it; both are fine.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    if (await isStoragePersisted()) return true;
+    return !!(await navigator.storage?.persist?.());
+  } catch (e) {
+    return false;
+  }
+};
+
+const getCacheBytes = async (cacheName: string): Promise<number> => {
+  if (typeof caches === 'undefined') return 0;
+  try {
+    const cache = await caches.open(cacheName);
+    const requests = await cache.keys();
+    let total = 0;
+    for (const request of requests) {
+      const response = await cache.match(request);
+      if (!response) continue;
+      const length = Number(response.headers.get('Content-Length'));
+      total += length > 0 ? length : (await response.blob()).size;
+    }
+    return total;
+  } catch (e) {
+    return 0;
+  }
+};
+
+export const getVaultUsage = async (): Promise<number> => {
+  const [finished, parts] = await Promise.all([getCacheBytes(OFFLINE_CACHE_NAME), getCacheBytes(DOWNLOAD_PARTS_CACHE)]);
+  return finished + parts;
+};
+
+export const getStorageReport = async (): Promise<StorageReport> => {
+  const [estimate, persisted, vaultBytes, bufferBytes, narrationBytes] = await Promise.all([
+    getStorageEstimate(), isStoragePersisted(), getVaultUsage(), getBufferUsage(), getNarrationCacheUsage()
+  ]);
+  return { ...estimate, persisted, vaultBytes, bufferBytes, narrationBytes, maxVaultBytes: getStorageSettings().maxVaultBytes };
+};
+
+// Bytes the queue still has to fetch
+const remainingQueueBytes = (queue: DownloadItem[]) =>
+  queue.filter(i => i.status !== 'done').reduce((sum, i) => sum + Math.max(0, i.totalBytes - i.bytesDownloaded), 0);
+
+/**
+ * هل يتسع التحميل الجديد؟ expectedBytes = 0 (حجم غير معروف) يمر دائماً.
+ * الحد الأقصى للخزنة قرار المستخدم؛ أما نقص المساحة فنحاول حله بحذف أجزاء التشغيل المسبق.
+ */
+export const checkDownloadFits = async (expectedBytes: number, queue: DownloadItem[] = []): Promise<DownloadFitResult> => {
+  if (!expectedBytes) return { fits: true };
+  const pending = remainingQueueBytes(queue);
+
+  const { maxVaultBytes } = getStorageSettings();
+  if (maxVaultBytes > 0) {
+    const vaultBytes = await getVaultUsage();
+    const available = Math.max(0, maxVaultBytes - vaultBytes - pending);
+    if (expectedBytes > available) return { fits: false, reason: 'vault-limit', needed: expectedBytes, available };
+  }
+
+  // Assembling a finished download briefly holds both its parts and the joined file.
+  const needed = expectedBytes * 2 + pending;
+  let { usage, quota } = await getStorageEstimate();
+  if (!quota) return { fits: true };
+  if (quota - usage < needed) {
+    const bufferBytes = await getBufferUsage();
+    await trimBufferCache(Math.max(0, bufferBytes - (needed - (quota - usage))));
+    ({ usage, quota } = await getStorageEstimate());
+  }
+  const available = Math.max(0, quota - usage - pending);
+  if (expectedBytes * 2 > available) return { fits: false, reason: 'quota', needed: expectedBytes, available };
+  return { fits: true };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(0, Math.round(bytes / 1024))} KB`;
+};
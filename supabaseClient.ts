@@ -1,14 +1,16 @@
 
 // تم تعطيل الأنظمة القديمة.
 // النظام يعمل الآن حصرياً على R2 و Firebase.
+import { recordWatchProgress, recordLikeToggle } from './videoCounters';
+
 export const supabase = null;
 
 export const incrementViewsInDB = async (id: string) => {
-  // يتم التعامل مع المشاهدات عبر Firebase مباشرة
-  // console.log('View incremented for:', id);
+  // يتم التعامل مع المشاهدات عبر Firebase (videoCounters.ts) - مشاهدة واحدة لكل مستخدم
+  recordWatchProgress(id, 1);
 };
 
 export const updateLikesInDB = async (id: string, inc: boolean) => {
-  // يتم التعامل مع الإعجابات عبر Firebase مباشرة
-  // console.log('Like updated for:', id, inc);
+  // يتم التعامل مع الإعجابات عبر Firebase (videoCounters.ts) - دفعات مجمعة
+  recordLikeToggle(id, inc);
 };
@@ -22,6 +22,33 @@ export interface Video {
   poster_url?: string;    // رابط الصورة المصغرة (Thumbnail/Poster) للعرض بدون نت
   tags?: string[];        // AI-driven categorization tags
   read_narrative?: boolean; // Toggle for reading narrative/title via TTS
+  stream_url?: string;    // HLS master playlist (.m3u8) للفيديوهات الطويلة، MP4 يبقى البديل
+  renditions?: VideoRendition[]; // الجودات المسجلة من لوحة التحكم (hlsStreaming.ts)
+  updated_at?: any;       // آخر تعديل من لوحة التحكم (Firestore Timestamp)
+  narration_url?: string; // MP3 السرد المسجل مسبقاً على R2 (narrationCache.ts)
+  narration_hash?: string; // Hash of the text that file was recorded from; a mismatch means it's stale
+  narration_cues?: CaptionCue[]; // توقيت الترجمة المحاذى مع الملف المسجل (ElevenLabs alignment)
+}
+
+export interface VideoRendition {
+  height: number;         // 0 when the playlist doesn't declare RESOLUTION
+  width?: number;
+  bandwidth: number;      // bits/s, from #EXT-X-STREAM-INF
+  url: string;            // Absolute URL of the variant (media) playlist
+}
+
+export interface WatchHistoryEntry {
+  id: string;
+  progress: number;       // 0..1
+  position?: number;      // Absolute seconds, for resuming (playbackResume.ts)
+  updatedAt?: number;     // ms timestamp of the last progress update
+}
+
+// Last add/remove of one id in one list, keyed "likedIds:<id>" (interactionSync.ts).
+// Removals are kept as tombstones so a merge with another device can't bring them back.
+export interface ListEdit {
+  present: boolean;
+  at: number;             // ms timestamp
 }
 
 export interface UserInteractions {
@@ -29,8 +56,79 @@ export interface UserInteractions {
   dislikedIds: string[];
   savedIds: string[];
   savedCategoryNames: string[]; 
-  watchHistory: { id: string; progress: number }[];
+  watchHistory: WatchHistoryEntry[];
   downloadedIds: string[];
+  listEdits?: Record<string, ListEdit>;
+}
+
+// Narration engines (narrationProviders.ts); order comes from settings/api_config
+export type NarrationProviderId = 'elevenlabs' | 'speech' | 'mock';
+
+// Captions synced to the narration (narrationCaptions.ts); times in seconds from the start of the audio
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type CaptionSize = 'small' | 'medium' | 'large';
+
+export interface CaptionSettings {
+  enabled: boolean;
+  size: CaptionSize;
+  followNarration: boolean;   // Shorts: captions only while the narrator is on, until the user picks a size
+}
+
+// Audio mixing (audioMixer.ts): one gain per source, 0..1
+export type MixerChannel = 'video' | 'narration' | 'avatar';
+
+export interface AudioMix {
+  video: number;
+  narration: number;
+  avatar: number;          // The AI Oracle's voice
+  updatedAt: number;       // ms; the newer of the local and users/{uid} copies wins
+}
+
+// Vault download queue (downloadManager.ts)
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'error' | 'done';
+
+// Vault integrity (vaultIntegrity.ts)
+export type VaultIssue = 'missing' | 'corrupt' | 'stale';
+
+export interface VaultCheckState {
+  lastRemoteCheck: number;             // Last pass that probed the server
+  issues: Record<string, VaultIssue>;  // Stale/corrupt flags by video id, kept until the re-download lands
+}
+
+export interface DownloadItem {
+  id: string;              // Video id
+  url: string;
+  title: string;
+  status: DownloadStatus;
+  bytesDownloaded: number;
+  totalBytes: number;      // 0 until the server tells us
+  parts: number;           // Chunks already stored
+  addedAt: number;
+  error?: string;
+  etag?: string;           // Source ETag, when the server exposes it
+  videoUpdatedAt?: number; // Version of the video doc at enqueue time (ms)
+}
+
+export interface DownloadQueueState {
+  items: DownloadItem[];
+  maxConcurrent: number;
+}
+
+// Offline storage (storageManager.ts)
+export interface StorageSettings {
+  maxVaultBytes: number;   // 0 = no limit besides the browser quota
+  fullCatalogSync: boolean; // Keep every video doc locally (offline browsing) instead of paging
+}
+
+// Smart-buffer chunk bookkeeping for LRU eviction (smartCache.ts)
+export interface BufferUsageEntry {
+  lastUsed: number;
+  size: number;
 }
 
 export interface UserProfile {
@@ -38,6 +136,7 @@ export interface UserProfile {
     gender?: 'male' | 'female';
     interests?: string[];
     last_voice_limit_hit?: number; // Timestamp
+    interactions?: UserInteractions; // Cross-device copy of the local library (interactionSync.ts)
 }
 
 export enum AppView {
@@ -50,5 +149,6 @@ export enum AppView {
   PRIVACY = 'privacy',
   ADMIN = 'admin',
   CATEGORY = 'category',
-  OFFLINE = 'offline'
+  OFFLINE = 'offline',
+  SEARCH = 'search'
 }
@@ -0,0 +1,254 @@
+import { Video, UserInteractions } from './types';
+import { sanitizeInteractions, sanitizeVideoList } from './persistence';
+import { mergeInteractions } from './interactionSync';
+import { OFFLINE_CACHE_NAME, VAULT_HEADERS } from './offlineManager';
+
+// -----------------------------------------------------------------------------
+// VAULT ARCHIVE (EXPORT / IMPORT)
+// -----------------------------------------------------------------------------
+// نقل المكتبة إلى هاتف جديد بدون نت: ملف واحد فيه التفاعلات (إعجابات، محفوظات،
+// سجل المشاهدة، التحميلات) وبيانات الفيديوهات، ومع خيار: ملفات الفيديو نفسها من الخزنة.
+// الشكل: "ROOHVAULT" + طول الـ manifest (uint32) + manifest JSON + الملفات متتالية.
+// الاستيراد يتحقق من التوقيع والنسخة قبل أن يلمس أي بيانات.
+// -----------------------------------------------------------------------------
+
+export const ARCHIVE_FORMAT = 'rooh-vault-archive';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.rooh';
+
+const MAGIC = 'ROOHVAULT';
+const HEADER_BYTES = MAGIC.length + 4;
+// Vault tags carried over so vaultIntegrity.ts can still verify imported files
+const CARRIED_HEADERS = [VAULT_HEADERS.expectedLength, VAULT_HEADERS.etag, VAULT_HEADERS.videoUpdated, VAULT_HEADERS.downloadedAt];
+
+interface ArchiveFileEntry {
+  videoId: string;
+  url: string;
+  size: number;
+  type: string;
+  headers: Record<string, string>;
+}
+
+export interface ArchiveManifest {
+  format: string;
+  version: number;
+  exportedAt: number;
+  interactions: UserInteractions;
+  videos: Video[];
+  files: ArchiveFileEntry[];   // Stored back to back after the manifest, in this order
+}
+
+export interface ArchiveExportResult {
+  blob: Blob;
+  fileName: string;
+  videoCount: number;
+  fileCount: number;
+}
+
+export interface ArchiveImportResult {
+  interactions: UserInteractions;
+  videos: Video[];             // Metadata, so imported videos show up even without a catalog
+  restoredIds: string[];       // Files now in the vault (written or already there)
+  missingFiles: Video[];       // Downloaded on the old phone, no file in the archive
+  quotaExceeded: boolean;
+}
+
+const referencedIds = (interactions: UserInteractions) => new Set([
+  ...interactions.likedIds,
+  ...interactions.dislikedIds,
+  ...interactions.savedIds,
+  ...interactions.downloadedIds,
+  ...interactions.watchHistory.map(h => h.id)
+]);
+
+const absoluteUrl = (url: string) => {
+  try { return new URL(url, location.href).toString(); } catch (e) { return url; }
+};
+
+// The vault copy of a video: by its current URL, or by the id tag (moved URL)
+const findVaultEntry = async (vault: Cache, video: Video, requests: readonly Request[]): Promise<Response | undefined> => {
+  const direct = await vault.match(absoluteUrl(video.video_url));
+  if (direct) return direct;
+  for (const request of requests) {
+    const response = await vault.match(request);
+    if (response?.headers.get(VAULT_HEADERS.videoId) === video.id) return response;
+  }
+  return undefined;
+};
+
+/**
+ * يبني ملف الأرشيف. includeFiles = false يصدّر المكتبة فقط (بضعة كيلوبايت)؛
+ * مع الملفات قد يصل الحجم لحجم الخزنة كاملة، لكن الـ Blob يشير لملفات الكاش ولا ينسخها للذاكرة.
+ */
+export const exportVaultArchive = async (
+  allVideos: Video[],
+  interactions: UserInteractions,
+  options: { includeFiles: boolean }
+): Promise<ArchiveExportResult> => {
+  const ids = referencedIds(interactions);
+  const videos = allVideos.filter(v => ids.has(v.id));
+  const files: ArchiveFileEntry[] = [];
+  const blobs: Blob[] = [];
+
+  if (options.includeFiles && typeof caches !== 'undefined') {
+    const vault = await caches.open(OFFLINE_CACHE_NAME);
+    const requests = await vault.keys();
+    for (const id of interactions.downloadedIds) {
+      const video = videos.find(v => v.id === id);
+      if (!video || !video.video_url) continue;
+      const response = await findVaultEntry(vault, video, requests);
+      if (!response) continue;
+      const blob = await response.blob();
+      const expected = Number(response.headers.get(VAULT_HEADERS.expectedLength));
+      // A truncated copy would only be flagged as corrupt on the other phone
+      if (blob.size === 0 || (expected && blob.size !== expected)) continue;
+
+      const headers: Record<string, string> = {};
+      CARRIED_HEADERS.forEach(name => {
+        const value = response.headers.get(name);
+        if (value) headers[name] = value;
+      });
+      files.push({ videoId: id, url: absoluteUrl(video.video_url), size: blob.size, type: blob.type || 'video/mp4', headers });
+      blobs.push(blob);
+    }
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    interactions,
+    videos,
+    files
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length);
+
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    blob: new Blob([header, manifestBytes, ...blobs], { type: 'application/octet-stream' }),
+    fileName: `rooh-library-${date}${ARCHIVE_EXTENSION}`,
+    videoCount: videos.length,
+    fileCount: files.length
+  };
+};
+
+const sanitizeFileEntries = (raw: any): ArchiveFileEntry[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const entries: ArchiveFileEntry[] = [];
+  for (const f of raw) {
+    // Offsets follow from the sizes: one bad entry makes every later one unreadable
+    if (!f || typeof f.videoId !== 'string' || typeof f.url !== 'string' || !(Number(f.size) >= 0)) return null;
+    const headers: Record<string, string> = {};
+    CARRIED_HEADERS.forEach(name => {
+      if (typeof f.headers?.[name] === 'string') headers[name] = f.headers[name];
+    });
+    entries.push({ videoId: f.videoId, url: f.url, size: Number(f.size), type: typeof f.type === 'string' ? f.type : 'video/mp4', headers });
+  }
+  return entries;
+};
+
+/**
+ * يقرأ ويتحقق من رأس الأرشيف فقط. الأخطاء برسائل عربية جاهزة للعرض.
+ */
+export const readArchiveManifest = async (file: Blob): Promise<{ manifest: ArchiveManifest, dataStart: number }> => {
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (header.length < HEADER_BYTES || new TextDecoder().decode(header.slice(0, MAGIC.length)) !== MAGIC) {
+    throw new Error('هذا الملف ليس أرشيف مكتبة صالحاً');
+  }
+  const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length);
+  const dataStart = HEADER_BYTES + manifestLength;
+  if (dataStart > file.size) throw new Error('ملف الأرشيف ناقص');
+
+  let raw: any;
+  try {
+    raw = JSON.parse(await file.slice(HEADER_BYTES, dataStart).text());
+  } catch (e) {
+    throw new Error('بيانات الأرشيف تالفة');
+  }
+  if (raw?.format !== ARCHIVE_FORMAT) throw new Error('هذا الملف ليس أرشيف مكتبة صالحاً');
+  if (!Number.isInteger(raw.version) || raw.version < 1) throw new Error('بيانات الأرشيف تالفة');
+  if (raw.version > ARCHIVE_VERSION) throw new Error('هذا الأرشيف من نسخة أحدث من التطبيق، حدّث التطبيق أولاً');
+
+  const files = sanitizeFileEntries(raw.files ?? []);
+  if (!files) throw new Error('بيانات الأرشيف تالفة');
+  const dataBytes = files.reduce((sum, f) => sum + f.size, 0);
+  if (dataStart + dataBytes > file.size) throw new Error('ملف الأرشيف ناقص');
+
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: raw.version,
+      exportedAt: Number(raw.exportedAt) || 0,
+      interactions: sanitizeInteractions(raw.interactions),
+      videos: sanitizeVideoList(raw.videos),
+      files
+    },
+    dataStart
+  };
+};
+
+/**
+ * يستعيد الأرشيف: الملفات تُكتب في الخزنة بنفس الروابط (ليقدمها sw.js)، والتفاعلات تُعاد
+ * للدمج عبر mergeImportedInteractions. الملفات الموجودة أصلاً بنفس الحجم لا تُكتب مرة أخرى.
+ */
+export const importVaultArchive = async (file: Blob): Promise<ArchiveImportResult> => {
+  const { manifest, dataStart } = await readArchiveManifest(file);
+  const result: ArchiveImportResult = {
+    interactions: manifest.interactions,
+    videos: manifest.videos,
+    restoredIds: [],
+    missingFiles: [],
+    quotaExceeded: false
+  };
+
+  if (typeof caches !== 'undefined' && manifest.files.length > 0) {
+    const vault = await caches.open(OFFLINE_CACHE_NAME);
+    let offset = dataStart;
+    for (const entry of manifest.files) {
+      const start = offset;
+      offset += entry.size;
+      if (result.quotaExceeded) continue;
+
+      const existing = await vault.match(entry.url);
+      if (existing && Number(existing.headers.get('Content-Length')) === entry.size) {
+        result.restoredIds.push(entry.videoId);
+        continue;
+      }
+
+      const headers: Record<string, string> = {
+        ...entry.headers,
+        'Content-Type': entry.type,
+        'Content-Length': String(entry.size),
+        [VAULT_HEADERS.videoId]: entry.videoId
+      };
+      if (!headers[VAULT_HEADERS.expectedLength]) headers[VAULT_HEADERS.expectedLength] = String(entry.size);
+      try {
+        await vault.put(entry.url, new Response(file.slice(start, start + entry.size, entry.type), { headers }));
+        result.restoredIds.push(entry.videoId);
+      } catch (e: any) {
+        if (e?.name === 'QuotaExceededError') {
+          result.quotaExceeded = true;
+        } else {
+          console.warn(`Archive import: could not restore ${entry.videoId}`, e);
+        }
+      }
+    }
+  }
+
+  const restored = new Set(result.restoredIds);
+  result.missingFiles = manifest.videos.filter(v =>
+    manifest.interactions.downloadedIds.includes(v.id) && !restored.has(v.id) && v.video_url
+  );
+  return result;
+};
+
+// Likes, saves and history merge as with cloud sync; downloads only where a file was restored.
+export const mergeImportedInteractions = (local: UserInteractions, imported: ArchiveImportResult): UserInteractions => {
+  const merged = mergeInteractions(local, imported.interactions, { keepLocalDownloads: true });
+  const downloaded = new Set(merged.downloadedIds);
+  imported.restoredIds.forEach(id => downloaded.add(id));
+  return { ...merged, downloadedIds: Array.from(downloaded) };
+};
@@ -0,0 +1,159 @@
+import { Video, VaultIssue } from './types';
+import { OFFLINE_CACHE_NAME, VAULT_HEADERS, getVideoVersionMs } from './offlineManager';
+import { probeRemoteFile } from './downloadManager';
+import { VaultCheckStore } from './persistence';
+
+// -----------------------------------------------------------------------------
+// VAULT INTEGRITY
+// -----------------------------------------------------------------------------
+// فحص الخزنة عند فتح صفحة التحميلات:
+// - ملف مبتور (الحجم لا يطابق المتوقع)  => corrupt: يُحذف ويُعلّم لإعادة التحميل.
+// - الأدمن عدّل الفيديو أو استبدل الملف  => stale: يبقى قابلاً للتشغيل حتى يُعاد تحميله.
+//   العلامات (stale / corrupt) تُحفظ في VaultCheckStore وتُمسح فقط بعد اكتمال إعادة التحميل.
+// - فيديو في المكتبة بدون ملف            => missing.
+// - ملفات لا تخص أي فيديو في المكتبة، أو فيديوهات حُذفت من Firestore => orphans تُزال.
+// -----------------------------------------------------------------------------
+
+export interface VaultReport {
+  issues: Record<string, VaultIssue>;   // By video id
+  removedIds: string[];                 // Deleted from Firestore: drop from the library
+  deletedEntries: number;               // Cache entries removed (corrupt + orphans)
+}
+
+interface VaultEntry {
+  request: Request;
+  response: Response;
+  videoId?: string;
+}
+
+const absoluteUrl = (url: string) => {
+  try { return new URL(url, location.href).toString(); } catch (e) { return url; }
+};
+
+// HEAD every download at most this often
+const REMOTE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Older untagged downloads only have the server's Content-Length to go by
+const expectedLengthOf = (response: Response): number =>
+  Number(response.headers.get(VAULT_HEADERS.expectedLength)) || Number(response.headers.get('Content-Length')) || 0;
+
+/**
+ * catalogReady: the catalog reflects Firestore (not the emergency placeholder). Without it
+ * nothing is treated as deleted. checkRemote: also HEAD each file to catch a replaced source
+ * (at most once a day).
+ * queuedIds: videos in the download queue; their entries are being (re)written, leave them alone.
+ */
+export const verifyVault = async (
+  allVideos: Video[],
+  downloadedIds: string[],
+  options: { catalogReady: boolean, checkRemote?: boolean, queuedIds?: string[] }
+): Promise<VaultReport> => {
+  const report: VaultReport = { issues: {}, removedIds: [], deletedEntries: 0 };
+  if (typeof caches === 'undefined') return report;
+
+  const vault = await caches.open(OFFLINE_CACHE_NAME);
+  const byId = new Map(allVideos.map(v => [v.id, v]));
+  const byUrl = new Map(allVideos.filter(v => v.video_url).map(v => [absoluteUrl(v.video_url), v]));
+  const library = new Set(downloadedIds);
+  const queued = new Set(options.queuedIds || []);
+
+  const entries: VaultEntry[] = [];
+  for (const request of await vault.keys()) {
+    const response = await vault.match(request);
+    if (!response) continue;
+    // Older downloads (before tagging) are matched by URL
+    const videoId = response.headers.get(VAULT_HEADERS.videoId) || byUrl.get(request.url)?.id;
+    entries.push({ request, response, videoId });
+  }
+
+  const remove = async (entry: VaultEntry) => {
+    if (await vault.delete(entry.request)) report.deletedEntries++;
+  };
+
+  // --- ORPHANS ---
+  for (const entry of entries) {
+    if (entry.videoId && queued.has(entry.videoId)) continue;
+    const deletedFromCatalog = options.catalogReady && (!entry.videoId || !byId.has(entry.videoId));
+    const notInLibrary = !entry.videoId || !library.has(entry.videoId);
+    if (deletedFromCatalog || notInLibrary) await remove(entry);
+  }
+  if (options.catalogReady) {
+    report.removedIds = downloadedIds.filter(id => !byId.has(id));
+  }
+
+  // --- PER VIDEO ---
+  const online = typeof navigator === 'undefined' || navigator.onLine;
+  const check = VaultCheckStore.load();
+  const flagged = check.issues;
+  const checkRemote = !!options.checkRemote && online && Date.now() - check.lastRemoteCheck >= REMOTE_CHECK_INTERVAL_MS;
+  const kept: Record<string, VaultIssue> = {};
+  for (const id of downloadedIds) {
+    const video = byId.get(id);
+    if (!video || !video.video_url) continue;
+    if (queued.has(id)) {
+      // Being re-downloaded: the flag goes when the new copy lands (downloadManager.ts)
+      if (flagged[id]) kept[id] = flagged[id];
+      continue;
+    }
+
+    const currentUrl = absoluteUrl(video.video_url);
+    const entry = entries.find(e => e.request.url === currentUrl) || entries.find(e => e.videoId === id);
+    if (!entry) {
+      report.issues[id] = flagged[id] === 'corrupt' ? 'corrupt' : 'missing';
+      continue;
+    }
+
+    const size = (await entry.response.clone().blob()).size;
+    const expected = expectedLengthOf(entry.response);
+    if (size === 0 || (expected && size !== expected)) {
+      await remove(entry);
+      report.issues[id] = 'corrupt';
+      continue;
+    }
+
+    // Same doc, new file URL (admin edit)
+    if (entry.request.url !== currentUrl) {
+      report.issues[id] = 'stale';
+      continue;
+    }
+
+    const storedVersion = Number(entry.response.headers.get(VAULT_HEADERS.videoUpdated)) || 0;
+    if (storedVersion && getVideoVersionMs(video) > storedVersion) {
+      report.issues[id] = 'stale';
+      continue;
+    }
+
+    // Found by an earlier remote check and not re-downloaded since
+    if (flagged[id] === 'stale') {
+      report.issues[id] = 'stale';
+      continue;
+    }
+
+    if (checkRemote) {
+      const remote = await probeRemoteFile(video.video_url);
+      const storedEtag = entry.response.headers.get(VAULT_HEADERS.etag);
+      if (storedEtag && remote.etag && remote.etag !== storedEtag) {
+        report.issues[id] = 'stale';
+      } else if (remote.length && remote.length !== size) {
+        // Untagged downloads can only be checked this way; a short one was truncated
+        const tagged = !!entry.response.headers.get(VAULT_HEADERS.videoId);
+        if (!tagged && size < remote.length) {
+          await remove(entry);
+          report.issues[id] = 'corrupt';
+        } else {
+          report.issues[id] = 'stale';
+        }
+      }
+    }
+  }
+
+  Object.keys(report.issues).forEach(id => {
+    if (report.issues[id] !== 'missing') kept[id] = report.issues[id];
+  });
+  VaultCheckStore.save({ lastRemoteCheck: checkRemote ? Date.now() : check.lastRemoteCheck, issues: kept });
+
+  if (report.deletedEntries > 0 || Object.keys(report.issues).length > 0) {
+    console.warn("Vault check", report);
+  }
+  return report;
+};
@@ -0,0 +1,164 @@
+import { db } from './firebaseConfig';
+import { doc, writeBatch, updateDoc, increment } from "firebase/firestore";
+import { Video } from './types';
+
+// -----------------------------------------------------------------------------
+// REAL VIEW / LIKE COUNTERS
+// -----------------------------------------------------------------------------
+// العدادات الحقيقية على videos/{id} (الحقول views و likes).
+// التحديثات تتجمع محلياً ثم تُرسل دفعة واحدة (Batch) بعد فترة هدوء قصيرة،
+// وكل مستخدم يُحسب مرة واحدة فقط لكل فيديو.
+// -----------------------------------------------------------------------------
+
+// A view counts once the user has watched this fraction of the video.
+export const VIEW_THRESHOLD = 0.25;
+const FLUSH_DELAY_MS = 5000;
+// Failed flushes back off (5s, 10s, 20s...) and the deltas are dropped after this many
+const MAX_FLUSH_RETRIES = 5;
+const COUNTED_VIEWS_KEY = 'rooh-counted-views-v1';
+const COMMITTED_LIKES_KEY = 'rooh-committed-likes-v1';
+
+type PendingDelta = { views: number; likes: number };
+
+const pending = new Map<string, PendingDelta>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let failedFlushes = 0;
+
+const loadIdSet = (key: string): Set<string> => {
+  try {
+    const raw = localStorage.getItem(key);
+    return new Set(raw ? JSON.parse(raw) : []);
+  } catch (e) {
+    return new Set();
+  }
+};
+
+const saveIdSet = (key: string, set: Set<string>) => {
+  try { localStorage.setItem(key, JSON.stringify(Array.from(set))); } catch (e) {}
+};
+
+// Videos this user already contributed a view to / whose like is already stored in Firestore.
+const countedViews = loadIdSet(COUNTED_VIEWS_KEY);
+const committedLikes = loadIdSet(COMMITTED_LIKES_KEY);
+// Desired like state per video, waiting for the next flush.
+const desiredLikes = new Map<string, boolean>();
+
+const getDelta = (id: string): PendingDelta => {
+  let delta = pending.get(id);
+  if (!delta) {
+    delta = { views: 0, likes: 0 };
+    pending.set(id, delta);
+  }
+  return delta;
+};
+
+const scheduleFlush = (delay: number = FLUSH_DELAY_MS) => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => { flushCounters(); }, delay);
+};
+
+type DeltaEntry = [string, PendingDelta];
+
+const deltaUpdates = (delta: PendingDelta) => {
+  const updates: Record<string, any> = {};
+  if (delta.views !== 0) updates.views = increment(delta.views);
+  if (delta.likes !== 0) updates.likes = increment(delta.likes);
+  return updates;
+};
+
+// A deleted video fails the whole batch: write one by one, drop the missing ones, return the rest that failed
+const commitEach = async (entries: DeltaEntry[]): Promise<DeltaEntry[]> => {
+  const failed: DeltaEntry[] = [];
+  await Promise.all(entries.map(async ([id, delta]) => {
+    try {
+      await updateDoc(doc(db, "videos", id), deltaUpdates(delta));
+    } catch (e: any) {
+      if (e?.code === 'not-found') console.warn(`Counter: video ${id} no longer exists, dropping its counts.`);
+      else failed.push([id, delta]);
+    }
+  }));
+  return failed;
+};
+
+// Given up on: the like state goes back to what Firestore has, so a later toggle is counted again
+const dropDeltas = (entries: DeltaEntry[]) => {
+  entries.forEach(([id, delta]) => {
+    if (delta.likes > 0) committedLikes.delete(id);
+    if (delta.likes < 0) committedLikes.add(id);
+  });
+};
+
+export const flushCounters = async () => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  // Resolve like toggles into a single net delta per video (like -> unlike -> like = +1 once).
+  desiredLikes.forEach((liked, id) => {
+    const wasCommitted = committedLikes.has(id);
+    if (liked === wasCommitted) return;
+    getDelta(id).likes += liked ? 1 : -1;
+    if (liked) committedLikes.add(id); else committedLikes.delete(id);
+  });
+  desiredLikes.clear();
+
+  const entries = Array.from(pending.entries()).filter(([, d]) => d.views !== 0 || d.likes !== 0);
+  pending.clear();
+  if (entries.length === 0) return;
+
+  let failed: DeltaEntry[] = [];
+  try {
+    const batch = writeBatch(db);
+    entries.forEach(([id, delta]) => batch.update(doc(db, "videos", id), deltaUpdates(delta)));
+    await batch.commit();
+  } catch (e: any) {
+    failed = e?.code === 'not-found' ? await commitEach(entries) : entries;
+  }
+
+  if (failed.length === 0) {
+    failedFlushes = 0;
+  } else if (++failedFlushes > MAX_FLUSH_RETRIES) {
+    console.warn(`Counter flush failed ${MAX_FLUSH_RETRIES} times, dropping ${failed.length} pending counts.`);
+    dropDeltas(failed);
+    failedFlushes = 0;
+  } else {
+    console.warn("Counter flush failed, will retry with the next batch.");
+    // Put the deltas back so they are not lost.
+    failed.forEach(([id, delta]) => {
+      const d = getDelta(id);
+      d.views += delta.views;
+      d.likes += delta.likes;
+    });
+    scheduleFlush(FLUSH_DELAY_MS * 2 ** (failedFlushes - 1));
+    return;
+  }
+  saveIdSet(COMMITTED_LIKES_KEY, committedLikes);
+};
+
+// Called from the players' progress events; counts one view per user per video.
+export const recordWatchProgress = (id: string, progress: number) => {
+  if (!id || id.startsWith('setup_mode')) return;
+  if (!(progress >= VIEW_THRESHOLD) || countedViews.has(id)) return;
+  countedViews.add(id);
+  saveIdSet(COUNTED_VIEWS_KEY, countedViews);
+  getDelta(id).views += 1;
+  scheduleFlush();
+};
+
+export const recordLikeToggle = (id: string, liked: boolean) => {
+  if (!id || id.startsWith('setup_mode')) return;
+  desiredLikes.set(id, liked);
+  scheduleFlush();
+};
+
+export const getVideoStats = (video?: Video | null) => ({
+  views: video?.views || 0,
+  likes: video?.likes || 0
+});
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushCounters();
+  });
+}
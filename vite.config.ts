@@ -1,13 +1,55 @@
 
-import { defineConfig } from 'vite';
+import fs from 'fs';
+import path from 'path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createMockNarrationHandler } from './workers/narrationMock';
+
+// Local stand-in for the narration Worker (workers/narrationProxy.ts), dev server only
+const narrationMock = (): Plugin => ({
+  name: 'narration-mock',
+  apply: 'serve',
+  configureServer(server) {
+    const handle = createMockNarrationHandler();
+    server.middlewares.use('/narration-mock', async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const headers = new Headers();
+      Object.entries(req.headers).forEach(([k, v]) => { if (typeof v === 'string') headers.set(k, v); });
+      const response = await handle(new Request(`http://localhost${req.url || '/'}`, {
+        method: req.method,
+        headers,
+        body: req.method === 'POST' ? Buffer.concat(chunks) : undefined
+      }));
+      res.statusCode = response.status;
+      response.headers.forEach((value, key) => res.setHeader(key, value));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    });
+  }
+});
+
+// Writes the built file list into dist/sw.js: the first visit loads the hashed bundles before
+// the service worker controls the page, so it has to fetch them itself for an offline cold start.
+const swPrecache = (): Plugin => ({
+  name: 'sw-precache',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const file = path.join(options.dir || 'dist', 'sw.js');
+    if (!fs.existsSync(file)) return;
+    const assets = Object.keys(bundle).filter(name => !name.endsWith('.map')).map(name => `./${name}`);
+    const source = fs.readFileSync(file, 'utf8');
+    fs.writeFileSync(file, source.replace('self.__PRECACHE_ASSETS__ || []', JSON.stringify(assets)));
+  }
+});
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), narrationMock(), swPrecache()],
   base: './', 
   define: {
     // هذا السطر يحل مشكلة عدم ظهور المفتاح في المتصفح على Netlify
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || '')
+    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || ''),
+    // Narration proxy override, e.g. NARRATION_URL=/narration-mock for the local mock
+    'process.env.NARRATION_URL': JSON.stringify(process.env.NARRATION_URL || '')
   },
   build: {
     outDir: 'dist',
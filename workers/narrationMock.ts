@@ -0,0 +1,128 @@
+import { KVLike, DurableNamespaceLike, DurableStorageLike, NarrationEnv, QuotaCounter, handleNarrationRequest } from './narrationProxy';
+
+// -----------------------------------------------------------------------------
+// NARRATION PROXY — LOCAL MOCK
+// -----------------------------------------------------------------------------
+// نفس منطق الـ Worker (الحصص وعدادها، تدوير المفاتيح، الأخطاء) بدون ElevenLabs ولا Firebase:
+// أي token يُقبل (الـ uid مشتق منه)، والصوت صمت WAV بطول تقريبي للنص.
+// يُشغّل من vite.config.ts على /narration-mock:  NARRATION_URL=/narration-mock npm run dev
+// -----------------------------------------------------------------------------
+
+export interface MockNarrationOptions {
+  keys?: string[];
+  failingKeys?: string[];      // Answer 401 like a revoked key, to exercise rotation
+  dailyQuota?: number;
+  dailyIpQuota?: number;
+  dailyGlobalQuota?: number;
+}
+
+export const createMemoryKV = (): KVLike => {
+  const store = new Map<string, { value: string, expires: number }>();
+  return {
+    get: async key => {
+      const entry = store.get(key);
+      if (!entry) return null;
+      if (entry.expires && entry.expires < Date.now()) {
+        store.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    put: async (key, value, options) => {
+      store.set(key, { value, expires: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : 0 });
+    }
+  };
+};
+
+// One QuotaCounter per name, storage in memory, alarms never fire (the dev server doesn't live that long)
+export const createMemoryDurableNamespace = (): DurableNamespaceLike => {
+  const objects = new Map<string, QuotaCounter>();
+  const memoryStorage = (): DurableStorageLike => {
+    const values = new Map<string, number>();
+    let alarm: number | null = null;
+    return {
+      get: async <T>(key: string) => values.get(key) as T | undefined,
+      put: async entries => { Object.entries(entries).forEach(([key, value]) => values.set(key, value)); },
+      deleteAll: async () => { values.clear(); },
+      getAlarm: async () => alarm,
+      setAlarm: async time => { alarm = time; }
+    };
+  };
+  return {
+    idFromName: name => name,
+    get: id => {
+      const name = String(id);
+      let counter = objects.get(name);
+      if (!counter) {
+        counter = new QuotaCounter({ storage: memoryStorage() });
+        objects.set(name, counter);
+      }
+      return counter;
+    }
+  };
+};
+
+const MOCK_MS_PER_CHAR = 60;
+const SAMPLE_RATE = 8000;
+
+// 8-bit mono PCM: 128 is silence
+export const silentWav = (durationMs: number): Uint8Array => {
+  const samples = Math.round((durationMs / 1000) * SAMPLE_RATE);
+  const bytes = new Uint8Array(44 + samples);
+  const view = new DataView(bytes.buffer);
+  const ascii = (offset: number, text: string) => text.split('').forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);            // PCM
+  view.setUint16(22, 1, true);            // Mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE, true);  // Byte rate
+  view.setUint16(32, 1, true);            // Block align
+  view.setUint16(34, 8, true);            // Bits per sample
+  ascii(36, 'data');
+  view.setUint32(40, samples, true);
+  bytes.fill(128, 44);
+  return bytes;
+};
+
+// Same shape as ElevenLabs' /with-timestamps alignment, characters evenly spread
+const mockAlignment = (text: string, durationSeconds: number) => {
+  const characters = text.split('');
+  const step = durationSeconds / Math.max(1, characters.length);
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => i * step),
+    character_end_times_seconds: characters.map((_, i) => (i + 1) * step)
+  };
+};
+
+export const createMockNarrationHandler = (options: MockNarrationOptions = {}) => {
+  const failing = new Set(options.failingKeys || []);
+  const env: NarrationEnv = {
+    ELEVENLABS_KEYS: (options.keys || ['mock-key-aaaaaaaaaaaa', 'mock-key-bbbbbbbbbbbb']).join('\n'),
+    NARRATION_KV: createMemoryKV(),
+    NARRATION_QUOTA: createMemoryDurableNamespace(),
+    FIREBASE_PROJECT_ID: 'mock',
+    DAILY_CHAR_QUOTA: String(options.dailyQuota || 5000),
+    DAILY_IP_CHAR_QUOTA: String(options.dailyIpQuota || 20000),
+    DAILY_GLOBAL_CHAR_QUOTA: String(options.dailyGlobalQuota || 200000)
+  };
+
+  return (request: Request) => handleNarrationRequest(request, env, {
+    verifyUser: async token => `mock-${token.slice(-8)}`,
+    synthesize: async (apiKey, _voiceId, text, withTimestamps) => {
+      if (failing.has(apiKey)) return new Response('invalid key', { status: 401 });
+      const durationMs = Math.max(800, text.length * MOCK_MS_PER_CHAR);
+      const audio = silentWav(durationMs);
+      if (!withTimestamps) return new Response(audio, { headers: { 'Content-Type': 'audio/wav' } });
+      return new Response(JSON.stringify({
+        audio_base64: btoa(Array.from(audio, b => String.fromCharCode(b)).join('')),
+        content_type: 'audio/wav',
+        alignment: mockAlignment(text, durationMs / 1000)
+      }), { headers: { 'Content-Type': 'application/json' } });
+    }
+  });
+};
@@ -0,0 +1,332 @@
+// -----------------------------------------------------------------------------
+// NARRATION PROXY (CLOUDFLARE WORKER)
+// -----------------------------------------------------------------------------
+// يعمل بجانب bold-king-9a8e (رفع الفيديوهات). مفاتيح ElevenLabs هنا فقط كـ secret،
+// والمتصفح يرسل النص + Firebase ID token ويستلم الصوت stream مباشرة.
+// - تدوير المفاتيح: مفتاح يرد 401/402/429 يُعلَّم كمستنفد لساعات ويُجرب التالي.
+// - حصص يومية (عدد الأحرف) لكل مستخدم، ولكل IP، وسقف عام لكل المستخدمين: الـ uid مجهول
+//   (signInAnonymously) ويتجدد بمسح بيانات المتصفح، فحصة المستخدم وحدها لا تحمي المفاتيح.
+//   العداد في Durable Object (QuotaCounter) حتى يكون الحجز ذرياً بين الطلبات المتوازية.
+//
+// Deploy (worker "rooh-narration"):
+//   KV binding NARRATION_KV                  (key rotation state only)
+//   Durable Object binding NARRATION_QUOTA -> class QuotaCounter (new_classes migration)
+//   wrangler secret put ELEVENLABS_KEYS      (one key per line)
+//   vars: FIREBASE_PROJECT_ID=rooh1-b80e6, DAILY_CHAR_QUOTA, DAILY_IP_CHAR_QUOTA,
+//         DAILY_GLOBAL_CHAR_QUOTA, ALLOWED_ORIGINS
+// The keys that used to be hard-coded in AdminDashboard.tsx are still in git history:
+// they must be revoked in ElevenLabs and never put into ELEVENLABS_KEYS.
+// Keys still stored in settings/api_config are shown to the admin once and removed when the
+// admin saves the settings. After that, the Firestore rules must allow writes to settings/*
+// for admins only: clients no longer write the config (key rotation lives here).
+// Local: workers/narrationMock.ts runs this same handler behind the Vite dev server.
+// -----------------------------------------------------------------------------
+
+// The part of Workers KV used here (also implemented in memory by the mock)
+export interface KVLike {
+  get: (key: string) => Promise<string | null>;
+  put: (key: string, value: string, options?: { expirationTtl?: number }) => Promise<void>;
+}
+
+// The parts of the Durable Object API used here (also implemented in memory by the mock)
+export interface DurableStorageLike {
+  get: <T>(key: string) => Promise<T | undefined>;
+  put: (entries: Record<string, number>) => Promise<void>;
+  deleteAll: () => Promise<void>;
+  getAlarm: () => Promise<number | null>;
+  setAlarm: (time: number) => Promise<void>;
+}
+
+export interface DurableNamespaceLike {
+  idFromName: (name: string) => unknown;
+  get: (id: unknown) => { fetch: (request: Request) => Promise<Response> };
+}
+
+export interface NarrationEnv {
+  ELEVENLABS_KEYS: string;
+  NARRATION_KV: KVLike;
+  NARRATION_QUOTA: DurableNamespaceLike;
+  FIREBASE_PROJECT_ID: string;
+  DAILY_CHAR_QUOTA?: string;   // Characters per user per day
+  DAILY_IP_CHAR_QUOTA?: string;     // Characters per client IP per day (new anonymous uids share it)
+  DAILY_GLOBAL_CHAR_QUOTA?: string; // Characters per day for everyone together
+  ALLOWED_ORIGINS?: string;    // Comma separated; '*' when empty
+  DEFAULT_VOICE_ID?: string;
+}
+
+// Swappable for the local mock: no real tokens, no real ElevenLabs
+export interface NarrationDeps {
+  verifyUser: (token: string, env: NarrationEnv) => Promise<string | null>;
+  // withTimestamps: JSON { audio_base64, alignment } instead of an audio stream
+  synthesize: (apiKey: string, voiceId: string, text: string, withTimestamps: boolean) => Promise<Response>;
+}
+
+const DEFAULT_DAILY_QUOTA = 5000;
+const DEFAULT_DAILY_IP_QUOTA = 20000;
+const DEFAULT_DAILY_GLOBAL_QUOTA = 200000;
+const MAX_TEXT_CHARS = 1500;
+const EXHAUSTED_TTL_SECONDS = 6 * 60 * 60;
+const QUOTA_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+const FALLBACK_VOICE_ID = "21m00Tcm4TlvDq8ikWAM"; // Rachel
+
+// --- FIREBASE ID TOKEN ---
+
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+let jwksCache: { keys: any[], expires: number } | null = null;
+
+const base64UrlDecode = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const decodeJson = (value: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(value)));
+
+const getJwks = async (): Promise<any[]> => {
+  if (jwksCache && jwksCache.expires > Date.now()) return jwksCache.keys;
+  const response = await fetch(JWKS_URL);
+  const data: any = await response.json();
+  const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('Cache-Control') || '')?.[1]) || 3600;
+  jwksCache = { keys: data.keys || [], expires: Date.now() + maxAge * 1000 };
+  return jwksCache.keys;
+};
+
+// Returns the uid of a valid Firebase (anonymous or not) ID token for this project
+export const verifyFirebaseToken = async (token: string, env: NarrationEnv): Promise<string | null> => {
+  try {
+    const [head, body, signature] = token.split('.');
+    if (!signature) return null;
+    const header = decodeJson(head);
+    const payload = decodeJson(body);
+    const now = Date.now() / 1000;
+    if (header.alg !== 'RS256') return null;
+    if (!payload.sub || payload.exp < now || payload.iat > now + 300) return null;
+    if (payload.aud !== env.FIREBASE_PROJECT_ID || payload.iss !== `https://securetoken.google.com/${env.FIREBASE_PROJECT_ID}`) return null;
+
+    const jwk = (await getJwks()).find(k => k.kid === header.kid);
+    if (!jwk) return null;
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64UrlDecode(signature), new TextEncoder().encode(`${head}.${body}`));
+    return valid ? payload.sub : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const elevenLabsSynthesize = (apiKey: string, voiceId: string, text: string, withTimestamps: boolean) =>
+  fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/${withTimestamps ? 'with-timestamps' : 'stream'}`, {
+    method: "POST",
+    headers: {
+      "Accept": withTimestamps ? "application/json" : "audio/mpeg",
+      "Content-Type": "application/json",
+      "xi-api-key": apiKey,
+    },
+    body: JSON.stringify({
+      text,
+      model_id: "eleven_multilingual_v2",
+      voice_settings: {
+        stability: 0.45,
+        similarity_boost: 0.8,
+        style: 0.6,
+        use_speaker_boost: true
+      }
+    }),
+  });
+
+export const defaultNarrationDeps: NarrationDeps = {
+  verifyUser: verifyFirebaseToken,
+  synthesize: elevenLabsSynthesize
+};
+
+// --- HELPERS ---
+
+const corsHeaders = (request: Request, env: NarrationEnv): Record<string, string> => {
+  const origin = request.headers.get('Origin') || '';
+  const allowed = (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+  const allowOrigin = allowed.length === 0 || allowed.includes('*') ? '*' : (allowed.includes(origin) ? origin : allowed[0]);
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Expose-Headers': 'X-Quota-Remaining',
+    'Vary': 'Origin'
+  };
+};
+
+const json = (status: number, body: any, headers: Record<string, string>) =>
+  new Response(JSON.stringify(body), { status, headers: { ...headers, 'Content-Type': 'application/json' } });
+
+const parseKeys = (raw: string) => (raw || '').split(/[\n,]/).map(k => k.trim()).filter(k => k.length > 10);
+
+// Never the key itself in KV names or logs
+const keyTag = (key: string) => key.slice(-6);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// --- QUOTA (Durable Object) ---
+
+export interface QuotaBucket {
+  key: string;
+  limit: number;
+}
+
+interface QuotaResult {
+  ok: boolean;
+  remaining: number;   // Of the first bucket (the user's)
+}
+
+/**
+ * عداد الحصص: كائن واحد لكل يوم، والطلبات داخله متتالية، فلا يمر طلبان متوازيان معاً فوق الحد.
+ */
+export class QuotaCounter {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private state: { storage: DurableStorageLike }) {}
+
+  // One operation at a time, also across the awaits on storage
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async reserve(buckets: QuotaBucket[], amount: number): Promise<QuotaResult> {
+    const storage = this.state.storage;
+    const used = await Promise.all(buckets.map(async b => Number(await storage.get<number>(b.key)) || 0));
+    const remaining = buckets[0] ? buckets[0].limit - used[0] : 0;
+    if (buckets.some((b, i) => used[i] + amount > b.limit)) return { ok: false, remaining: Math.max(0, remaining) };
+
+    const entries: Record<string, number> = {};
+    buckets.forEach((b, i) => { entries[b.key] = used[i] + amount; });
+    await storage.put(entries);
+    // The day's counters delete themselves once it's over
+    if (!(await storage.getAlarm())) await storage.setAlarm(Date.now() + QUOTA_TTL_MS);
+    return { ok: true, remaining: remaining - amount };
+  }
+
+  // Synthesis failed after the reservation: give the characters back
+  private async refund(buckets: QuotaBucket[], amount: number): Promise<QuotaResult> {
+    const storage = this.state.storage;
+    const entries: Record<string, number> = {};
+    for (const b of buckets) entries[b.key] = Math.max(0, (Number(await storage.get<number>(b.key)) || 0) - amount);
+    await storage.put(entries);
+    return { ok: true, remaining: 0 };
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { op, buckets, amount } = await request.json() as { op: string, buckets: QuotaBucket[], amount: number };
+    if (!Array.isArray(buckets) || !(amount > 0)) return new Response('bad request', { status: 400 });
+    const result = await this.serialize(() => op === 'refund' ? this.refund(buckets, amount) : this.reserve(buckets, amount));
+    return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  async alarm() {
+    await this.state.storage.deleteAll();
+  }
+}
+
+const quotaCall = async (env: NarrationEnv, op: 'reserve' | 'refund', buckets: QuotaBucket[], amount: number): Promise<QuotaResult> => {
+  const counter = env.NARRATION_QUOTA.get(env.NARRATION_QUOTA.idFromName(`quota:${today()}`));
+  const response = await counter.fetch(new Request('https://quota/', {
+    method: 'POST',
+    body: JSON.stringify({ op, buckets, amount })
+  }));
+  return response.json() as Promise<QuotaResult>;
+};
+
+// --- HANDLER ---
+
+export const handleNarrationRequest = async (
+  request: Request,
+  env: NarrationEnv,
+  deps: NarrationDeps = defaultNarrationDeps
+): Promise<Response> => {
+  const cors = corsHeaders(request, env);
+  if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: cors });
+  if (request.method !== 'POST') return json(405, { error: 'method_not_allowed' }, cors);
+
+  const token = (request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const uid = token ? await deps.verifyUser(token, env) : null;
+  if (!uid) return json(401, { error: 'unauthorized' }, cors);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (e) {
+    return json(400, { error: 'invalid_json' }, cors);
+  }
+  const text = typeof body?.text === 'string' ? body.text.trim() : '';
+  if (!text) return json(400, { error: 'empty_text' }, cors);
+  if (text.length > MAX_TEXT_CHARS) return json(413, { error: 'text_too_long', max: MAX_TEXT_CHARS }, cors);
+  const voiceId = typeof body?.voice_id === 'string' && /^[A-Za-z0-9]{10,40}$/.test(body.voice_id)
+    ? body.voice_id
+    : (env.DEFAULT_VOICE_ID || FALLBACK_VOICE_ID);
+  // Character timing for synchronized captions (admin recordings); not streamed
+  const withTimestamps = body?.timestamps === true;
+
+  const keys = parseKeys(env.ELEVENLABS_KEYS);
+  if (keys.length === 0) return json(503, { error: 'no_keys' }, cors);
+
+  // --- QUOTAS: user, client IP, everyone ---
+  // Reserved before calling ElevenLabs, so parallel requests can't all pass the check
+  const buckets: QuotaBucket[] = [
+    { key: `user:${uid}`, limit: Number(env.DAILY_CHAR_QUOTA) || DEFAULT_DAILY_QUOTA },
+    { key: `ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`, limit: Number(env.DAILY_IP_CHAR_QUOTA) || DEFAULT_DAILY_IP_QUOTA },
+    { key: 'global', limit: Number(env.DAILY_GLOBAL_CHAR_QUOTA) || DEFAULT_DAILY_GLOBAL_QUOTA }
+  ];
+  let quota: QuotaResult;
+  try {
+    quota = await quotaCall(env, 'reserve', buckets, text.length);
+  } catch (e) {
+    return json(503, { error: 'quota_unavailable' }, cors);
+  }
+  if (!quota.ok) return json(429, { error: 'quota_exceeded', remaining: quota.remaining }, cors);
+  const fail = async (status: number, body: any) => {
+    await quotaCall(env, 'refund', buckets, text.length).catch(() => {});
+    return json(status, body, cors);
+  };
+
+  // --- KEY ROTATION ---
+  const start = (Number(await env.NARRATION_KV.get('key-index')) || 0) % keys.length;
+
+  for (let step = 0; step < keys.length; step++) {
+    const index = (start + step) % keys.length;
+    const apiKey = keys[index];
+    if (await env.NARRATION_KV.get(`exhausted:${keyTag(apiKey)}`)) continue;
+
+    let upstream: Response;
+    try {
+      upstream = await deps.synthesize(apiKey, voiceId, text, withTimestamps);
+    } catch (e) {
+      return fail(502, { error: 'upstream_unreachable' });
+    }
+
+    // Unauthorized (401) or out of characters (402 / 429): park this key, try the next
+    if (upstream.status === 401 || upstream.status === 402 || upstream.status === 429) {
+      console.warn(`Narration key …${keyTag(apiKey)} failed with ${upstream.status}, rotating`);
+      await env.NARRATION_KV.put(`exhausted:${keyTag(apiKey)}`, String(upstream.status), { expirationTtl: EXHAUSTED_TTL_SECONDS });
+      continue;
+    }
+    if (!upstream.ok || !upstream.body) {
+      return fail(502, { error: 'upstream_error', status: upstream.status });
+    }
+
+    if (index !== start) await env.NARRATION_KV.put('key-index', String(index));
+
+    // Streamed straight through: the first bytes reach the player before ElevenLabs is done
+    return new Response(upstream.body, {
+      status: 200,
+      headers: {
+        ...cors,
+        'Content-Type': upstream.headers.get('Content-Type') || (withTimestamps ? 'application/json' : 'audio/mpeg'),
+        'Cache-Control': 'no-store',
+        'X-Quota-Remaining': String(quota.remaining)
+      }
+    });
+  }
+
+  return fail(503, { error: 'keys_exhausted' });
+};
+
+export default {
+  fetch: (request: Request, env: NarrationEnv) => handleNarrationRequest(request, env)
+};